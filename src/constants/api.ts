@@ -1,4 +1,5 @@
 // API constants
+import type { RetryPolicy } from '../types';
 
 export const API_ENDPOINTS = {
   mainnet: {
@@ -26,4 +27,17 @@ export const API_ROUTES = {
 
 export const DEFAULT_API_TIMEOUT = 10000; // 10 seconds
 export const MAX_RETRIES = 3;
-export const RETRY_DELAY = 1000; // 1 second 
\ No newline at end of file
+export const RETRY_DELAY = 1000; // 1 second
+export const DEFAULT_BATCH_CONCURRENCY = 10;
+export const DEFAULT_BATCH_CACHE_SIZE = 1000; // Reads kept by a batch provider, least recently used evicted first
+export const DEFAULT_APY_LOOKBACK_BLOCKS = 100000; // History used to annualize exchange rate growth
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+export const DEFAULT_WATCH_INTERVAL = 10000; // 10 seconds between checks for new blocks
+export const DEFAULT_WITHDRAWAL_WAIT_TIME = 7 * 24 * 60 * 60; // Staking exit window, in seconds
+export const DEFAULT_SWAP_SLIPPAGE_BPS = 50;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: MAX_RETRIES,
+  delayMs: RETRY_DELAY,
+  backoffMultiplier: 2,
+};
@@ -0,0 +1,214 @@
+// Contract deployment timeline
+
+import type { ContractDeployment } from "../types";
+import ERC4626_ABI from '../abis/erc4626.abi.json';
+import EKUBO_CORE_ABI from '../abis/ekubo.abi.json';
+import EKUBO_POSITION_ABI from '../abis/ekubo.position.abi.json';
+import NOSTRA_LP_ABI from '../abis/nostra.lp.abi.json';
+import OPUS_ABI from '../abis/opus.abi.json';
+import OPUS_SHRINE_ABI from '../abis/opus.shrine.abi.json';
+import OPUS_SENTINEL_ABI from '../abis/opus.sentinel.abi.json';
+import SENSEI_ABI from '../abis/sensei.abi.json';
+import EKUBO_STRKFARM_ABI from '../abis/ekubo_strkfarm.abi.json';
+import VESU_SINGLETON_ABI from '../abis/vesu.singleton.abi.json';
+
+const MAINNET_DEPLOYMENTS: ContractDeployment[] = [
+  {
+    contract: 'lst.xSTRK',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x28d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0a',
+    fromBlock: 929092,
+    abi: ERC4626_ABI,
+  },
+  {
+    contract: 'ekubo.positions',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x02e0af29598b407c8716b17f6d2795eca1b471413fa03fb145a5e33722184067',
+    fromBlock: 165388,
+    abi: EKUBO_POSITION_ABI,
+  },
+  {
+    contract: 'ekubo.core',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x00000005dd3d2f4429af886cd1a3b08289dbcea99a294197e9eb43b0e0325b4b',
+    fromBlock: 165388,
+    abi: EKUBO_CORE_ABI,
+  },
+  {
+    contract: 'ekubo.twamm',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x043e4f09c32d13d43a880e85f69f7de93ceda62d6cf2581a582c6db635548fdc',
+    fromBlock: 165388,
+  },
+  {
+    contract: 'nostra.nXSTRK',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x06878fd475d5cea090934d690ecbe4ad78503124e4f80380a2e45eb417aafb9c',
+    fromBlock: 968482,
+    abi: ERC4626_ABI,
+  },
+  {
+    contract: 'nostra.nXSTRKC',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x01b8d8e31f9dd1bde7dc878dd871225504837c78c40ff01cbf03a255e2154bf0',
+    fromBlock: 968483,
+    abi: ERC4626_ABI,
+  },
+  {
+    contract: 'nostra.iXSTRK',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x04d1125a716f547a0b69413c0098e811da3b799d173429c95da4290a00c139f7',
+    fromBlock: 968483,
+    abi: ERC4626_ABI,
+  },
+  {
+    contract: 'nostra.iXSTRKC',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x0257afe480da9255a026127cd3a295a580ef316b297a69be22b89729ae8c1d2a',
+    fromBlock: 968484,
+    abi: ERC4626_ABI,
+  },
+  {
+    contract: 'nostra.dXSTRK',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x0424638c9060d08b4820aabbb28347fc7234e2b7aadab58ad0f101e2412ea42d',
+    fromBlock: 968481,
+    abi: ERC4626_ABI,
+  },
+  {
+    contract: 'nostra.xSTRKSTRKPair',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x00205fd8586f6be6c16f4aa65cc1034ecff96d96481878e55f629cd0cb83e05f',
+    fromBlock: 940755,
+    abi: NOSTRA_LP_ABI,
+  },
+  {
+    contract: 'opus.abbot',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x04d0bb0a4c40012384e7c419e6eb3c637b28e8363fb66958b60d90505b9c072f',
+    fromBlock: 973643,
+    abi: OPUS_ABI,
+  },
+  {
+    contract: 'opus.shrine',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x0498edfaf50ca5855666a700c25dd629d577eb9afccdf3b5977aec79aee55ada',
+    fromBlock: 973643,
+    abi: OPUS_SHRINE_ABI,
+  },
+  {
+    contract: 'opus.sentinel',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x06428ec3221f369792df13e7d59580902f1bfabd56a81d30224f4f282ba380cd',
+    fromBlock: 973643,
+    abi: OPUS_SENTINEL_ABI,
+  },
+  {
+    contract: 'strkfarm.xSTRKSensei',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x07023a5cadc8a5db80e4f0fde6b330cbd3c17bbbf9cb145cbabd7bd5e6fb7b0b',
+    fromBlock: 1053807,
+    abi: SENSEI_ABI,
+  },
+  {
+    contract: 'strkfarm.ekuboXSTRKSTRK',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x01f083b98674bc21effee29ef443a00c7b9a500fd92cf30341a3da12c73f2324',
+    fromBlock: 1209881,
+    abi: EKUBO_STRKFARM_ABI,
+  },
+  {
+    contract: 'vesu.singleton',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x02545b2e5d519fc230e9cd781046d3a64e092114f07e44771e0d719d148725ef',
+    fromBlock: 954847,
+    toBlock: 1440400,
+    abi: VESU_SINGLETON_ABI,
+    successor: 'v2',
+  },
+  {
+    contract: 'vesu.singleton',
+    version: 'v2',
+    network: 'mainnet',
+    address: '0x000d8d6dfec4d33bfb6895de9f3852143a17c6f92fd2a21da3d6924d34870160',
+    fromBlock: 1440481,
+    abi: VESU_SINGLETON_ABI,
+  },
+  {
+    contract: 'vesu.vXSTRK',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x037ff012710c5175004687bc4d9e4c6e86d6ce5ca6fb6afee72ea02b1208fdb7',
+    fromBlock: 954847,
+    toBlock: 1440400,
+    abi: ERC4626_ABI,
+    successor: 'v2',
+  },
+  {
+    contract: 'vesu.vXSTRK',
+    version: 'v2',
+    network: 'mainnet',
+    address: '0x040f67320745980459615f4f3e7dd71002dbe6c68c8249c847c82dbe327b23cb',
+    fromBlock: 1440456,
+    abi: ERC4626_ABI,
+  },
+  {
+    contract: 'vesu.vAlterscopeXSTRK',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x062b16a3c933bd60eddc9630c3d088f0a1e9dcd510fbbf4ff3fb3b6a3839fd8a',
+    fromBlock: 1197971,
+    toBlock: 1440400,
+    abi: ERC4626_ABI,
+    successor: 'v2',
+  },
+  {
+    contract: 'vesu.vAlterscopeXSTRK',
+    version: 'v2',
+    network: 'mainnet',
+    address: '0x020478f0a1b1ef010aa24104ba0e91bf60efcabed02026b75e1d68690809e453',
+    fromBlock: 1440471,
+    abi: ERC4626_ABI,
+  },
+  {
+    contract: 'vesu.vRE7rUSDCXSTRK',
+    version: 'v1',
+    network: 'mainnet',
+    address: '0x069d2c197680bd60bafe1804239968275a1c85a1cad921809277306634b332b5',
+    fromBlock: 1240391,
+    toBlock: 1440400,
+    abi: ERC4626_ABI,
+    successor: 'v2',
+  },
+  {
+    contract: 'vesu.vRE7rUSDCXSTRK',
+    version: 'v2',
+    network: 'mainnet',
+    address: '0x0318761ecb936a2905306c371c7935d2a6a0fa24493ac7c87be3859a36e2563a',
+    fromBlock: 1440481,
+    abi: ERC4626_ABI,
+  },
+];
+
+// Testnet uses the mainnet addresses, except for the LST which is not deployed there
+const TESTNET_DEPLOYMENTS: ContractDeployment[] = MAINNET_DEPLOYMENTS
+  .filter(deployment => deployment.contract !== 'lst.xSTRK')
+  .map(deployment => ({ ...deployment, network: 'testnet' }));
+
+export const DEPLOYMENTS: ContractDeployment[] = [...MAINNET_DEPLOYMENTS, ...TESTNET_DEPLOYMENTS];
@@ -1,4 +1,6 @@
 // Constants
 export * from './networks';
 export * from './contracts';
+export * from './tokens';
+export * from './deployments';
 export * from './api'; 
\ No newline at end of file
@@ -0,0 +1,56 @@
+// Token constants
+
+import { Network } from "../types";
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export const TOKENS: Record<Network, Record<string, TokenInfo>> = {
+  mainnet: {
+    xSTRK: {
+      address: '0x28d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0a',
+      symbol: 'xSTRK',
+      decimals: 18,
+    },
+    STRK: {
+      address: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d',
+      symbol: 'STRK',
+      decimals: 18,
+    },
+    ETH: {
+      address: '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7',
+      symbol: 'ETH',
+      decimals: 18,
+    },
+    USDC: {
+      address: '0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8',
+      symbol: 'USDC',
+      decimals: 6,
+    },
+    USDT: {
+      address: '0x068f5c6a61780768455de69077e07e89787839bf8166decfbf92b645209c0fb8',
+      symbol: 'USDT',
+      decimals: 6,
+    },
+    WBTC: {
+      address: '0x03fe2b97c1fd336e750087d68b9b867997fd64a2661ff3ca5a7c771641e8e7ac',
+      symbol: 'WBTC',
+      decimals: 8,
+    },
+  },
+  testnet: {
+    STRK: {
+      address: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d',
+      symbol: 'STRK',
+      decimals: 18,
+    },
+    ETH: {
+      address: '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7',
+      symbol: 'ETH',
+      decimals: 18,
+    },
+  },
+};
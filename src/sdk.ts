@@ -4,7 +4,13 @@ import { ApiService } from './services/api';
 import { StarknetService } from './services/starknet';
 import { LSTService } from './services/lst';
 import { HoldingsManager } from './services/holdings-manager';
-import { DEFAULT_NETWORK, DEFAULT_TIMEOUT } from './constants';
+import { PointsCalculator } from './services/points';
+import { AllocationService } from './services/allocations';
+import { WithdrawalQueueService } from './services/withdrawal-queue';
+import { UnstakeRouter } from './services/unstake';
+import { DelegatorService } from './services/delegators';
+import { DeploymentTimeline } from './services/deployment-timeline';
+import { DEFAULT_NETWORK, DEFAULT_TIMEOUT, DEPLOYMENTS } from './constants';
 import { Account, RpcProvider } from 'starknet';
 
 export class EndurSDK {
@@ -12,12 +18,21 @@ export class EndurSDK {
   public starknet: StarknetService;
   public lst: LSTService;
   public holdings: HoldingsManager;
+  public points: PointsCalculator;
+  public allocations: AllocationService;
+  public withdrawalQueue: WithdrawalQueueService;
+  public unstake: UnstakeRouter;
+  public delegators: DelegatorService;
   private config: SDKConfig;
 
   constructor(options: SDKOptions) {
     this.config = {
       timeout: DEFAULT_TIMEOUT,
       network: options.config.network,
+      ...(options.config.allocationDistributor
+        ? { allocationDistributor: options.config.allocationDistributor }
+        : {}),
+      ...(options.config.deployments ? { deployments: options.config.deployments } : {}),
     };
 
     // Initialize services
@@ -29,6 +44,23 @@ export class EndurSDK {
     );
     this.lst = new LSTService(this.starknet, this.config.network);
     this.holdings = new HoldingsManager(options);
+    this.points = new PointsCalculator(this.holdings, this.api);
+    this.allocations = new AllocationService(
+      this.starknet,
+      this.api,
+      this.config.allocationDistributor
+    );
+    this.withdrawalQueue = new WithdrawalQueueService(
+      this.starknet,
+      this.config.network,
+      new DeploymentTimeline(this.config.deployments ?? DEPLOYMENTS)
+    );
+    this.unstake = new UnstakeRouter(this.lst, this.holdings, this.starknet, this.config.network);
+    this.delegators = new DelegatorService(
+      this.starknet,
+      this.config.network,
+      new DeploymentTimeline(this.config.deployments ?? DEPLOYMENTS)
+    );
   }
 
   /**
@@ -43,6 +75,10 @@ export class EndurSDK {
    */
   updateConfig(newConfig: Partial<SDKConfig>): void {
     this.config = { ...this.config, ...newConfig };
+
+    if (newConfig.allocationDistributor) {
+      this.allocations.setDistributor(newConfig.allocationDistributor);
+    }
     
     // Reinitialize services if network changed
     if (newConfig.network && newConfig.network !== this.config.network) {
@@ -54,6 +90,23 @@ export class EndurSDK {
       );
       this.lst = new LSTService(this.starknet, this.config.network);
       this.holdings.updateNetwork(this.config.network!);
+      this.points = new PointsCalculator(this.holdings, this.api);
+      this.allocations = new AllocationService(
+        this.starknet,
+        this.api,
+        this.config.allocationDistributor
+      );
+      this.withdrawalQueue = new WithdrawalQueueService(
+        this.starknet,
+        this.config.network,
+        new DeploymentTimeline(this.config.deployments ?? DEPLOYMENTS)
+      );
+      this.unstake = new UnstakeRouter(this.lst, this.holdings, this.starknet, this.config.network);
+      this.delegators = new DelegatorService(
+        this.starknet,
+        this.config.network,
+        new DeploymentTimeline(this.config.deployments ?? DEPLOYMENTS)
+      );
     }
   }
 
@@ -0,0 +1,73 @@
+import { Call, RpcProvider } from 'starknet';
+import { BatchReadProvider } from '../batch-provider';
+
+function call(entrypoint: string): Call {
+  return { contractAddress: '0x123', entrypoint, calldata: ['1'] };
+}
+
+describe('BatchReadProvider', () => {
+  let read: jest.SpyInstance;
+
+  beforeEach(() => {
+    // Reads that reach the node answer with the entrypoint name
+    read = jest
+      .spyOn(RpcProvider.prototype, 'callContract')
+      .mockImplementation(async (request: Call) => [request.entrypoint]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createProvider(cacheSize?: number): BatchReadProvider {
+    return new BatchReadProvider(new RpcProvider({ nodeUrl: 'http://localhost:5050' }), 0, cacheSize);
+  }
+
+  it('sends identical calls once and calls at other blocks separately', async () => {
+    const provider = createProvider();
+
+    const results = await Promise.all([
+      provider.callContract(call('balance_of'), 100),
+      provider.callContract(call('balance_of'), 100),
+      provider.callContract(call('balance_of'), 101),
+    ]);
+
+    expect(results).toEqual([['balance_of'], ['balance_of'], ['balance_of']]);
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the least recently used read once the cache is full', async () => {
+    const provider = createProvider(2);
+
+    await provider.callContract(call('a'), 1);
+    await provider.callContract(call('b'), 1);
+    // Using a again makes b the least recently used
+    await provider.callContract(call('a'), 1);
+    await provider.callContract(call('c'), 1);
+    read.mockClear();
+
+    await provider.callContract(call('a'), 1);
+    await provider.callContract(call('b'), 1);
+
+    expect(read.mock.calls.map(([request]) => (request as Call).entrypoint)).toEqual(['b']);
+  });
+
+  it('does not cache failed reads', async () => {
+    const provider = createProvider();
+    read.mockRejectedValueOnce(new Error('timeout'));
+
+    await expect(provider.callContract(call('total_supply'), 1)).rejects.toThrow('timeout');
+    await expect(provider.callContract(call('total_supply'), 1)).resolves.toEqual(['total_supply']);
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops every cached read on clearCache', async () => {
+    const provider = createProvider();
+
+    await provider.callContract(call('name'), 1);
+    provider.clearCache();
+    await provider.callContract(call('name'), 1);
+
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,124 @@
+import type { CallData, Event, EventFilter } from '../../types';
+import { getEventSelector } from '../../utils';
+import { DelegatorService } from '../delegators';
+import type { StarknetService } from '../starknet';
+
+const D1 = '0x111';
+const D2 = '0x222';
+const D3 = '0x333';
+
+function event(name: string, blockNumber: number, data: (string | number)[]): Event {
+  return {
+    transactionHash: `0x${blockNumber.toString(16)}`,
+    blockNumber,
+    blockHash: '0x0',
+    address: '0x0',
+    keys: [getEventSelector(name)],
+    data: data.map(String),
+  };
+}
+
+// LST events, oldest first: three delegators added, one of them deactivated, and dispatches
+const HISTORY = [
+  event('DelegatorUpdate', 1, [D1, 1, 0]),
+  event('DelegatorUpdate', 2, [D2, 1, 1]),
+  event('DelegatorUpdate', 3, [D3, 1, 2]),
+  event('DispatchToStake', 4, [D1, 100, 0]),
+  event('DispatchToStake', 5, [D2, 300, 0]),
+  event('DispatchToStake', 6, [D1, 50, 0]),
+  event('DispatchToWithdrawQueue', 7, [20, 0]),
+  event('DelegatorUpdate', 8, [D3, 0, 2]),
+];
+
+// Stake changes in the validators' pools: D1 unstaked down to 60 after its dispatches
+const POOL_CHANGES = new Map<bigint, Event[]>([
+  [
+    BigInt(D1),
+    [
+      event('PoolMemberBalanceChanged', 4, [0, 100]),
+      event('PoolMemberBalanceChanged', 6, [100, 150]),
+      event('PoolMemberBalanceChanged', 9, [150, 60]),
+    ],
+  ],
+  [BigInt(D2), [event('PoolMemberBalanceChanged', 5, [0, 300])]],
+]);
+
+function createService(): DelegatorService {
+  const starknetService = {
+    getEvents: async (filter: EventFilter) => {
+      if (filter.address) {
+        return HISTORY;
+      }
+      // keys: [[selector], [pool member]]
+      const [member] = (filter.keys?.[1] ?? []) as string[];
+      return POOL_CHANGES.get(BigInt(member ?? 0)) ?? [];
+    },
+    callContract: async ({ entrypoint }: CallData) => (entrypoint === 'balance_of' ? ['7', '0'] : ['1']),
+  } as unknown as StarknetService;
+  return new DelegatorService(starknetService);
+}
+
+describe('DelegatorService', () => {
+  it('folds the LST events into the latest state of every delegator', async () => {
+    const delegators = await createService().getDelegators();
+
+    expect(delegators).toEqual([
+      {
+        address: D1,
+        isDelegator: true,
+        isActive: true,
+        index: 0,
+        totalDispatched: '150',
+        dispatchCount: 2,
+        addedAt: 1,
+        updatedAt: 1,
+      },
+      {
+        address: D2,
+        isDelegator: true,
+        isActive: true,
+        index: 1,
+        totalDispatched: '300',
+        dispatchCount: 1,
+        addedAt: 2,
+        updatedAt: 2,
+      },
+      {
+        address: D3,
+        isDelegator: true,
+        isActive: false,
+        index: 2,
+        totalDispatched: '0',
+        dispatchCount: 0,
+        addedAt: 3,
+        updatedAt: 8,
+      },
+    ]);
+  });
+
+  it('shares the stake of active delegators by their current stake, unstaking deducted', async () => {
+    const distribution = await createService().getStakeDistribution();
+
+    const stakes = distribution.delegators.map(({ address, stakedAmount, shareBps }) => [address, stakedAmount, shareBps]);
+    expect(stakes).toEqual([
+      [D2, '300', '8333'],
+      [D1, '60', '1666'],
+    ]);
+    expect(distribution).toMatchObject({
+      totalStaked: '360',
+      dispatchedToStake: '450',
+      dispatchedToWithdrawQueue: '20',
+      lstBalance: '7',
+    });
+  });
+
+  it('filters the history by delegator', async () => {
+    const history = await createService().getHistory({ delegator: D1 });
+
+    expect(history.map(({ type, amount }) => [type, amount])).toEqual([
+      ['update', undefined],
+      ['stake', '100'],
+      ['stake', '50'],
+    ]);
+  });
+});
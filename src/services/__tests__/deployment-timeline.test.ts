@@ -0,0 +1,67 @@
+import type { ContractDeployment } from '../../types';
+import { createDefaultDeploymentTimeline, DeploymentTimeline } from '../deployment-timeline';
+
+const V1: ContractDeployment = {
+  contract: 'vesu.vXSTRK',
+  version: 'v1',
+  network: 'mainnet',
+  address: '0x1',
+  fromBlock: 100,
+  toBlock: 199,
+};
+
+const V2: ContractDeployment = {
+  contract: 'vesu.vXSTRK',
+  version: 'v2',
+  network: 'mainnet',
+  address: '0x2',
+  fromBlock: 200,
+};
+
+describe('DeploymentTimeline', () => {
+  const timeline = new DeploymentTimeline([V2, V1]);
+
+  it('resolves the version active at a block, bounds included', () => {
+    expect(timeline.resolve('vesu.vXSTRK', 'mainnet', 100)?.version).toBe('v1');
+    expect(timeline.resolve('vesu.vXSTRK', 'mainnet', 199)?.version).toBe('v1');
+    expect(timeline.resolve('vesu.vXSTRK', 'mainnet', 200)?.version).toBe('v2');
+    expect(timeline.resolve('vesu.vXSTRK', 'mainnet', 5000000)?.version).toBe('v2');
+  });
+
+  it('resolves nothing before the first deployment or on another network', () => {
+    expect(timeline.resolve('vesu.vXSTRK', 'mainnet', 99)).toBeUndefined();
+    expect(timeline.resolve('vesu.vXSTRK', 'testnet', 300)).toBeUndefined();
+    expect(timeline.resolve('vesu.unknown', 'mainnet', 300)).toBeUndefined();
+  });
+
+  it('resolves block tags to the current version', () => {
+    expect(timeline.resolve('vesu.vXSTRK', 'mainnet')?.version).toBe('v2');
+    expect(timeline.resolve('vesu.vXSTRK', 'mainnet', 'latest')?.version).toBe('v2');
+  });
+
+  it('lists versions oldest first, up to a block', () => {
+    expect(timeline.getVersions('vesu.vXSTRK', 'mainnet').map(({ version }) => version)).toEqual(['v1', 'v2']);
+    expect(timeline.getVersions('vesu.vXSTRK', 'mainnet', 150).map(({ version }) => version)).toEqual(['v1']);
+    expect(timeline.getFirstBlock('vesu.vXSTRK', 'mainnet')).toBe(100);
+  });
+
+  it('rejects overlapping ranges and repeated versions', () => {
+    expect(() => timeline.register({ ...V2, version: 'v3', fromBlock: 150 })).toThrow('overlaps v1');
+    expect(() => timeline.register({ ...V2, fromBlock: 500 })).toThrow('overlaps v2');
+  });
+
+  it('registers the same contract on another network', () => {
+    const both = new DeploymentTimeline([V1, { ...V1, network: 'testnet' }]);
+
+    expect(both.resolve('vesu.vXSTRK', 'testnet', 150)?.address).toBe('0x1');
+  });
+});
+
+describe('createDefaultDeploymentTimeline', () => {
+  it('has no xSTRK deployment on testnet', () => {
+    const timeline = createDefaultDeploymentTimeline();
+
+    expect(timeline.resolve('lst.xSTRK', 'mainnet')).toBeDefined();
+    expect(timeline.resolve('lst.xSTRK', 'testnet')).toBeUndefined();
+  });
+});
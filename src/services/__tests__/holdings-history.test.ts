@@ -0,0 +1,80 @@
+import type { RpcProvider } from 'starknet';
+import type { HoldingsResponse, ProtocolInfo } from '../../types';
+import { BaseHoldingsService } from '../holdings';
+import { HoldingsManager } from '../holdings-manager';
+
+const ADDRESS = '0x123';
+
+class StubHoldingsService extends BaseHoldingsService {
+  constructor(private readonly handler: () => Promise<HoldingsResponse>) {
+    super({ config: { network: 'mainnet' }, provider: {} as RpcProvider });
+  }
+
+  async getHoldings(): Promise<HoldingsResponse> {
+    return this.handler();
+  }
+}
+
+// A protocol deployed at block 200
+const INFO: ProtocolInfo = {
+  type: 'stub',
+  name: 'stub',
+  description: 'stub',
+  isActive: true,
+  supportedNetworks: ['mainnet'],
+  deploymentBlock: 200,
+};
+
+describe('HoldingsManager.getHoldingsHistory', () => {
+  // Blocks up to 1000, ten seconds apart
+  const provider = {
+    getBlockNumber: async () => 1000,
+    getBlock: async (blockNumber: number) => ({ timestamp: blockNumber * 10 }),
+  } as unknown as RpcProvider;
+  let manager: HoldingsManager;
+  let handler: jest.Mock;
+
+  beforeEach(() => {
+    manager = new HoldingsManager({ config: { network: 'mainnet' }, provider });
+    handler = jest.fn().mockResolvedValue({
+      success: true,
+      data: { xSTRKAmount: '7', STRKAmount: '0' },
+      protocol: 'stub',
+      timestamp: 0,
+    });
+    manager.registerProtocol(INFO, () => new StubHoldingsService(handler));
+  });
+
+  it('samples every step from the deployment block and always includes the last block', async () => {
+    const history = await manager.getHoldingsHistory(ADDRESS, { protocols: ['stub'], fromBlock: 100, step: 300 });
+
+    expect(history.points.map(({ blockNumber, timestamp }) => [blockNumber, timestamp])).toEqual([
+      [200, 2000],
+      [500, 5000],
+      [800, 8000],
+      [1000, 10000],
+    ]);
+    expect(history.points[0]?.total.xSTRKAmount).toBe('7');
+  });
+
+  it('returns one point per timestamp, in order, at the last block at or before it', async () => {
+    const history = await manager.getHoldingsHistory(ADDRESS, {
+      protocols: ['stub'],
+      timestamps: [5009, 2000, 5001],
+    });
+
+    expect(history.points.map(({ requestedTimestamp, blockNumber }) => [requestedTimestamp, blockNumber])).toEqual([
+      [5009, 500],
+      [2000, 200],
+      [5001, 500],
+    ]);
+    // Timestamps within the same block share one query
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects sampling without a positive step or timestamps', async () => {
+    await expect(manager.getHoldingsHistory(ADDRESS, { protocols: ['stub'], step: 0 })).rejects.toThrow(
+      'Either a positive step or timestamps must be provided'
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import type { RpcProvider } from 'starknet';
+import type { HoldingsRequest, HoldingsResponse, ProtocolInfo } from '../../types';
+import { BaseHoldingsService } from '../holdings';
+import { HoldingsManager } from '../holdings-manager';
+
+const ADDRESS = '0x123';
+const NO_DELAY = { delayMs: 0 };
+
+class StubHoldingsService extends BaseHoldingsService {
+  constructor(private readonly handler: () => Promise<HoldingsResponse>) {
+    super({ config: { network: 'mainnet' }, provider: {} as RpcProvider });
+  }
+
+  async getHoldings(): Promise<HoldingsResponse> {
+    return this.handler();
+  }
+}
+
+function info(type: string, deploymentBlock?: number): ProtocolInfo {
+  return {
+    type,
+    name: type,
+    description: type,
+    isActive: true,
+    supportedNetworks: ['mainnet'],
+    ...(deploymentBlock !== undefined ? { deploymentBlock } : {}),
+  };
+}
+
+function holdings(xSTRKAmount: string): HoldingsResponse {
+  return { success: true, data: { xSTRKAmount, STRKAmount: '0' }, protocol: 'stub', timestamp: 0 };
+}
+
+describe('HoldingsManager retry policy', () => {
+  let manager: HoldingsManager;
+  const request: HoldingsRequest = { address: ADDRESS, provider: {}, blockNumber: 500 };
+
+  beforeEach(() => {
+    manager = new HoldingsManager({ config: { network: 'mainnet' }, provider: {} as RpcProvider });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function register(type: string, handler: jest.Mock, deploymentBlock?: number): void {
+    manager.registerProtocol(info(type, deploymentBlock), () => new StubHoldingsService(handler));
+  }
+
+  it('retries failed queries until one succeeds', async () => {
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValue(holdings('42'));
+    register('flaky', handler);
+    const onRetry = jest.fn();
+
+    const result = await manager.getMultiProtocolHoldings(request, ['flaky'], {
+      retry: { ...NO_DELAY, maxAttempts: 3 },
+      onRetry,
+    });
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls).toEqual([
+      ['flaky', 1, 'timeout'],
+      ['flaky', 2, 'timeout'],
+    ]);
+    expect(result.results?.flaky).toMatchObject({ status: 'ok', attempts: 3 });
+    expect(result.total.xSTRKAmount).toBe('42');
+  });
+
+  it('waits longer before every retry by the backoff multiplier', async () => {
+    const delays: number[] = [];
+    jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+      delays.push(ms ?? 0);
+      callback();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    register('down', jest.fn().mockRejectedValue(new Error('unreachable')));
+
+    await manager.getMultiProtocolHoldings(request, ['down'], {
+      mode: 'bestEffort',
+      retry: { maxAttempts: 4, delayMs: 100, backoffMultiplier: 3 },
+    });
+
+    expect(delays).toEqual([100, 300, 900]);
+  });
+
+  it('does not retry unsuccessful responses', async () => {
+    const handler = jest.fn().mockResolvedValue({ success: false, error: 'unsupported', protocol: 'stub', timestamp: 0 });
+    register('unsupported', handler);
+
+    const result = await manager.getMultiProtocolHoldings(request, ['unsupported'], {
+      mode: 'bestEffort',
+      retry: { ...NO_DELAY, maxAttempts: 3 },
+    });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(result.results?.unsupported).toMatchObject({ status: 'failed', attempts: 1, error: 'unsupported' });
+  });
+
+  it('rejects in strict mode once a protocol has used up its attempts', async () => {
+    register('ok', jest.fn().mockResolvedValue(holdings('1')));
+    register('down', jest.fn().mockRejectedValue(new Error('unreachable')));
+
+    await expect(
+      manager.getMultiProtocolHoldings(request, ['ok', 'down'], { retry: { ...NO_DELAY, maxAttempts: 2 } })
+    ).rejects.toThrow('down (unreachable)');
+  });
+
+  it('leaves failed protocols out of the totals in best effort mode', async () => {
+    register('ok', jest.fn().mockResolvedValue(holdings('5')));
+    register('down', jest.fn().mockRejectedValue(new Error('unreachable')));
+
+    const result = await manager.getMultiProtocolHoldings(request, ['ok', 'down'], {
+      mode: 'bestEffort',
+      retry: { ...NO_DELAY, maxAttempts: 2 },
+    });
+
+    expect(result.total.xSTRKAmount).toBe('5');
+    expect(result.byProtocol.down).toBeUndefined();
+    expect(result.results?.down).toMatchObject({ status: 'failed', attempts: 2, error: 'unreachable' });
+  });
+
+  it('reports protocols deployed after the block without querying them', async () => {
+    const handler = jest.fn().mockResolvedValue(holdings('5'));
+    register('later', handler, 1000);
+
+    const result = await manager.getMultiProtocolHoldings(request, ['later']);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.results?.later).toMatchObject({ status: 'not-deployed', attempts: 0 });
+    expect(result.byProtocol.later?.xSTRKAmount).toBe('0');
+  });
+
+  it('takes the deployment block of protocols with contracts from the deployment timeline', async () => {
+    const handler = jest.fn().mockResolvedValue(holdings('5'));
+    // Both contracts are deployed at block 973643
+    manager.registerProtocol({ ...info('troves'), contracts: ['opus.abbot', 'opus.shrine'] }, () =>
+      new StubHoldingsService(handler)
+    );
+
+    const before = await manager.getMultiProtocolHoldings(request, ['troves']);
+    const after = await manager.getMultiProtocolHoldings({ ...request, blockNumber: 973643 }, ['troves']);
+
+    expect(before.results?.troves).toMatchObject({ status: 'not-deployed' });
+    expect(after.results?.troves).toMatchObject({ status: 'ok' });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,122 @@
+import type { RpcProvider } from 'starknet';
+import type { HoldingsChange, MultiProtocolHoldings, SDKOptions } from '../../types';
+import type { HoldingsManager } from '../holdings-manager';
+import { HoldingsWatcher } from '../holdings-watcher';
+
+const ALICE = '0xa11ce';
+const BOB = '0xb0b';
+const INTERVAL = 1000;
+
+function holdings(xSTRKAmount: string): MultiProtocolHoldings {
+  const lst = { xSTRKAmount, STRKAmount: '0' };
+  return { total: lst, byProtocol: { lst }, protocols: ['lst'] };
+}
+
+// A chain at `block`, where every contract event names Alice and her xSTRK balance is `balance`
+function createWatcher() {
+  const chain = { block: 100, balance: '1' };
+  const event = () => ({
+    transaction_hash: '0x1',
+    block_number: chain.block,
+    block_hash: '0x0',
+    from_address: '0x0',
+    keys: [],
+    data: [ALICE],
+  });
+  const provider = {
+    getBlockNumber: jest.fn(async () => chain.block),
+    // Only the STRK transfer queries filter by keys
+    getEvents: jest.fn(async ({ keys }: { keys: string[][] }) => ({ events: keys.length === 0 ? [event()] : [] })),
+  };
+  const getMultiProtocolHoldings = jest.fn(async ({ address }: { address: string }) =>
+    holdings(address === ALICE ? chain.balance : '5')
+  );
+  const manager = { getMultiProtocolHoldings } as unknown as HoldingsManager;
+  const config = { config: { network: 'mainnet' }, provider: provider as unknown as RpcProvider } as SDKOptions;
+  const watcher = new HoldingsWatcher(manager, config, {
+    addresses: [ALICE, BOB],
+    protocols: ['lst'],
+    pollInterval: INTERVAL,
+  });
+
+  return { watcher, chain, provider, getMultiProtocolHoldings };
+}
+
+describe('HoldingsWatcher', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('recomputes only the addresses named by events in new blocks', async () => {
+    const { watcher, chain, getMultiProtocolHoldings } = createWatcher();
+    const changes: HoldingsChange[] = [];
+    watcher.on('change', change => changes.push(change));
+
+    await watcher.start();
+    getMultiProtocolHoldings.mockClear();
+
+    // No new block: nothing is recomputed
+    await jest.advanceTimersByTimeAsync(INTERVAL);
+    expect(getMultiProtocolHoldings).not.toHaveBeenCalled();
+
+    chain.block = 101;
+    chain.balance = '3';
+    await jest.advanceTimersByTimeAsync(INTERVAL);
+
+    expect(getMultiProtocolHoldings.mock.calls.map(([query]) => query)).toEqual([
+      expect.objectContaining({ address: ALICE, blockNumber: 101 }),
+    ]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      address: ALICE,
+      blockNumber: 101,
+      diff: { total: { xSTRKAmount: { before: '1', after: '3', delta: '2' } } },
+    });
+    expect(watcher.getLatestHoldings(ALICE)).toEqual(holdings('3'));
+    watcher.stop();
+  });
+
+  it('stops notifying unsubscribed listeners and stops polling', async () => {
+    const { watcher, chain, provider } = createWatcher();
+    const listener = jest.fn();
+    const unsubscribe = watcher.on('change', listener);
+
+    await watcher.start();
+    unsubscribe();
+    chain.block = 101;
+    chain.balance = '3';
+    await jest.advanceTimersByTimeAsync(INTERVAL);
+    expect(listener).not.toHaveBeenCalled();
+
+    watcher.stop();
+    provider.getBlockNumber.mockClear();
+    await jest.advanceTimersByTimeAsync(10 * INTERVAL);
+
+    expect(watcher.isRunning()).toBe(false);
+    expect(provider.getBlockNumber).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed poll and covers the same blocks on the next one', async () => {
+    const { watcher, chain, provider, getMultiProtocolHoldings } = createWatcher();
+    const errors: Error[] = [];
+    watcher.on('error', error => errors.push(error));
+
+    await watcher.start();
+    chain.block = 101;
+    provider.getEvents.mockRejectedValueOnce(new Error('node unavailable'));
+    await jest.advanceTimersByTimeAsync(INTERVAL);
+    expect(errors.map(({ message }) => message)).toEqual(['node unavailable']);
+
+    getMultiProtocolHoldings.mockClear();
+    provider.getEvents.mockClear();
+    await jest.advanceTimersByTimeAsync(INTERVAL);
+
+    expect(provider.getEvents.mock.calls[0]?.[0]).toMatchObject({ from_block: { block_number: 101 } });
+    expect(getMultiProtocolHoldings).toHaveBeenCalledTimes(1);
+    watcher.stop();
+  });
+});
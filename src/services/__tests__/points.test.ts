@@ -0,0 +1,94 @@
+import type { HoldingsHistory, HoldingsHistoryOptions, PointsSchedule, ProtocolHoldings } from '../../types';
+import type { ApiService } from '../api';
+import type { HoldingsManager } from '../holdings-manager';
+import { PointsCalculator } from '../points';
+
+const ADDRESS = '0x123';
+const DAY = 24 * 60 * 60;
+
+const SCHEDULE: PointsSchedule = {
+  periods: [
+    { name: 'launch', fromTimestamp: 0, toTimestamp: 2 * DAY, pointsPerDay: 10, multipliers: { lst: 1, ekubo: 2 } },
+    { name: 'season', fromTimestamp: 2 * DAY, pointsPerDay: 20, multipliers: { lst: 1 } },
+  ],
+};
+
+function xSTRK(amount: number): ProtocolHoldings {
+  return { xSTRKAmount: (BigInt(amount) * 10n ** 18n).toString(), STRKAmount: '0' };
+}
+
+// Answers every sampled timestamp with the holdings in effect from the latest change at or before it
+function createCalculator(changes: [number, Record<string, ProtocolHoldings>][]) {
+  const getHoldingsHistory = jest.fn(
+    async (address: string, options: HoldingsHistoryOptions): Promise<HoldingsHistory> => ({
+      address,
+      protocols: options.protocols ?? [],
+      points: (options.timestamps ?? []).map(timestamp => {
+        const byProtocol = [...changes].reverse().find(([from]) => from <= timestamp)?.[1] ?? {};
+        return { blockNumber: timestamp, timestamp, total: { xSTRKAmount: '0', STRKAmount: '0' }, byProtocol };
+      }),
+    })
+  );
+  const holdings = { getHoldingsHistory } as unknown as HoldingsManager;
+  return { calculator: new PointsCalculator(holdings, {} as ApiService), getHoldingsHistory };
+}
+
+describe('PointsCalculator.computePoints', () => {
+  it('accrues holdings until the next sample, at the multipliers of the period the sample is in', async () => {
+    const { calculator, getHoldingsHistory } = createCalculator([
+      [0, { lst: xSTRK(10), ekubo: xSTRK(5) }],
+      [1.5 * DAY, { lst: xSTRK(20) }],
+    ]);
+
+    const points = await calculator.computePoints(ADDRESS, SCHEDULE, {
+      toTimestamp: 3 * DAY,
+      sampleInterval: 1.5 * DAY,
+    });
+
+    // Samples every 1.5 days, plus the start of the second period
+    expect(getHoldingsHistory.mock.calls[0]?.[1]).toMatchObject({
+      timestamps: [0, 1.5 * DAY, 2 * DAY],
+      protocols: ['lst', 'ekubo'],
+    });
+    // launch: 10 x 1 x 10 x 1.5 + 5 x 2 x 10 x 1.5 + 20 x 1 x 10 x 0.5; season: 20 x 1 x 20 x 1
+    expect(points).toMatchObject({
+      fromTimestamp: 0,
+      toTimestamp: 3 * DAY,
+      samples: 3,
+      byProtocol: { lst: 650, ekubo: 150 },
+      byPeriod: { launch: 400, season: 400 },
+    });
+    expect(points.total).toBeCloseTo(800);
+  });
+
+  it('ends at the last period and gives net borrowers no points', async () => {
+    const schedule: PointsSchedule = {
+      periods: [
+        { name: 'launch', fromTimestamp: 0, toTimestamp: DAY, pointsPerDay: 10, multipliers: { lst: 1, nostraLending: 1 } },
+      ],
+    };
+    const { calculator } = createCalculator([
+      [0, { lst: xSTRK(1), nostraLending: { xSTRKAmount: (-(10n ** 18n)).toString(), STRKAmount: '0' } }],
+    ]);
+
+    const points = await calculator.computePoints(ADDRESS, schedule, { toTimestamp: 10 * DAY });
+
+    expect(points.toTimestamp).toBe(DAY);
+    expect(points.byProtocol).toEqual({ lst: 10 });
+  });
+
+  it('rejects overlapping periods and non-positive sample intervals', async () => {
+    const { calculator } = createCalculator([]);
+    const overlapping: PointsSchedule = {
+      periods: [
+        { name: 'a', fromTimestamp: 0, toTimestamp: 2 * DAY, pointsPerDay: 1, multipliers: {} },
+        { name: 'b', fromTimestamp: DAY, pointsPerDay: 1, multipliers: {} },
+      ],
+    };
+
+    await expect(calculator.computePoints(ADDRESS, overlapping)).rejects.toThrow('Points period a overlaps b');
+    await expect(calculator.computePoints(ADDRESS, SCHEDULE, { sampleInterval: 0 })).rejects.toThrow(
+      'Sample interval must be positive'
+    );
+  });
+});
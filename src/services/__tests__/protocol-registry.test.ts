@@ -0,0 +1,72 @@
+import type { RpcProvider } from 'starknet';
+import type { HoldingsResponse, ProtocolInfo } from '../../types';
+import { BaseHoldingsService } from '../holdings';
+import { createDefaultProtocolRegistry, ProtocolRegistry } from '../protocol-registry';
+
+class StubHoldingsService extends BaseHoldingsService {
+  async getHoldings(): Promise<HoldingsResponse> {
+    return { success: true, data: { xSTRKAmount: '0', STRKAmount: '0' }, protocol: 'stub', timestamp: 0 };
+  }
+}
+
+const INFO: ProtocolInfo = {
+  type: 'myVenue',
+  name: 'My Venue',
+  description: 'xSTRK vault',
+  isActive: true,
+  supportedNetworks: ['mainnet'],
+};
+
+const factory = () => new StubHoldingsService({ config: { network: 'mainnet' }, provider: {} as RpcProvider });
+
+describe('ProtocolRegistry', () => {
+  it('registers, looks up and unregisters protocols', () => {
+    const registry = new ProtocolRegistry();
+
+    registry.register(INFO, factory);
+
+    expect(registry.has('myVenue')).toBe(true);
+    expect(registry.get('myVenue')?.factory).toBe(factory);
+    expect(registry.getProtocolTypes()).toEqual(['myVenue']);
+    expect(registry.unregister('myVenue')).toBe(true);
+    expect(registry.unregister('myVenue')).toBe(false);
+    expect(registry.has('myVenue')).toBe(false);
+  });
+
+  it('rejects a second registration under the same id', () => {
+    const registry = new ProtocolRegistry();
+    registry.register(INFO, factory);
+
+    expect(() => registry.register({ ...INFO, name: 'Other' }, factory)).toThrow('myVenue is already registered');
+    expect(registry.get('myVenue')?.info.name).toBe('My Venue');
+  });
+
+  it('keeps its own copy of the protocol info', () => {
+    const registry = new ProtocolRegistry();
+    const info = { ...INFO };
+    registry.register(info, factory);
+
+    info.isActive = false;
+    const [listed] = registry.getProtocolInfos();
+    if (listed) {
+      listed.name = 'Renamed';
+    }
+
+    expect(registry.get('myVenue')?.info).toMatchObject({ isActive: true, name: 'My Venue' });
+  });
+
+  it('registers every built-in protocol by default', () => {
+    const registry = createDefaultProtocolRegistry();
+
+    expect(registry.getProtocolTypes()).toEqual([
+      'lst',
+      'ekubo',
+      'nostraLending',
+      'nostraDex',
+      'opus',
+      'strkfarm',
+      'strkfarmEkubo',
+      'vesu',
+    ]);
+  });
+});
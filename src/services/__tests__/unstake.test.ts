@@ -0,0 +1,123 @@
+import type { EkuboPoolKey, EkuboSwapQuote, NostraPoolState, NostraSwapQuote, UnstakeRoute } from '../../types';
+import type { HoldingsManager } from '../holdings-manager';
+import type { LSTService } from '../lst';
+import type { StarknetService } from '../starknet';
+import { UnstakeRouter } from '../unstake';
+
+const XSTRK = '0x28d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0a';
+const STRK = '0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d';
+const RECEIVER = '0x123';
+const PAIR = '0x456';
+const AMOUNT = '1000000';
+
+const POOL_KEY: EkuboPoolKey = { token0: XSTRK, token1: STRK, fee: '0', tickSpacing: '200', extension: '0x0' };
+
+interface RouteOutputs {
+  queue: string | Error;
+  ekubo: string | Error;
+  nostra: string | Error;
+}
+
+function ekuboQuote(amountOut: string): EkuboSwapQuote {
+  return {
+    pool: '0x789',
+    poolKey: POOL_KEY,
+    tokenIn: XSTRK,
+    tokenOut: STRK,
+    amountIn: AMOUNT,
+    amountOut,
+    sqrtRatio: '0',
+    liquidity: '0',
+    marginalPrice: '1000000000000000000',
+    effectivePrice: '1000000000000000000',
+    partial: false,
+  };
+}
+
+function nostraQuote(amountOut: string): NostraSwapQuote {
+  return {
+    pool: PAIR,
+    tokenIn: XSTRK,
+    tokenOut: STRK,
+    amountIn: AMOUNT,
+    amountOut,
+    reserveIn: '0',
+    reserveOut: '0',
+    effectivePrice: '1000000000000000000',
+  };
+}
+
+function resolve<T>(output: string | Error, value: (amountOut: string) => T): jest.Mock {
+  return output instanceof Error ? jest.fn().mockRejectedValue(output) : jest.fn().mockResolvedValue(value(output));
+}
+
+// Wires the router to stubbed LST and pool services that answer with fixed outputs
+function createRouter(outputs: RouteOutputs): UnstakeRouter {
+  const lst = {
+    quoteRedeem: resolve(outputs.queue, amountOut => ({ amountOut, exceedsMax: false, maxAmount: AMOUNT })),
+    buildRedeemCall: jest.fn().mockReturnValue({ contractAddress: XSTRK, entrypoint: 'redeem', calldata: [] }),
+  } as unknown as LSTService;
+
+  const pool: Partial<NostraPoolState> = { address: PAIR, token0: XSTRK, token1: STRK };
+  const services: Record<string, unknown> = {
+    strkfarmEkubo: { getPoolKey: jest.fn().mockResolvedValue(POOL_KEY) },
+    ekubo: { quoteExactIn: resolve(outputs.ekubo, ekuboQuote) },
+    nostraDex: {
+      getPoolState: jest.fn().mockResolvedValue(pool),
+      quoteExactIn: resolve(outputs.nostra, nostraQuote),
+    },
+  };
+  const holdings = { getProtocolService: (protocol: string) => services[protocol] } as unknown as HoldingsManager;
+  const starknetService = { getAccountAddress: () => RECEIVER } as unknown as StarknetService;
+
+  return new UnstakeRouter(lst, holdings, starknetService);
+}
+
+describe('UnstakeRouter.quote', () => {
+  it('ranks routes by expected STRK and picks the best swap as the instant route', async () => {
+    const router = createRouter({ queue: '1000', ekubo: '980', nostra: '990' });
+
+    const quote = await router.quote(AMOUNT, { slippageBps: 0 });
+
+    expect(quote.routes.map(({ route }) => route)).toEqual(['withdrawalQueue', 'nostra', 'ekubo']);
+    expect(quote.bestInstant).toBe('nostra');
+  });
+
+  it('returns routes that cannot be quoted last, with their error and no calls', async () => {
+    const router = createRouter({ queue: '1000', ekubo: new Error('no active liquidity'), nostra: '990' });
+
+    const quote = await router.quote(AMOUNT);
+
+    expect(quote.routes.map(({ route }) => route)).toEqual(['withdrawalQueue', 'nostra', 'ekubo']);
+    const failed = quote.routes[2] as UnstakeRoute;
+    expect(failed).toMatchObject({ expectedSTRK: '0', calls: [], error: 'no active liquidity' });
+    await expect(router.execute(failed)).rejects.toThrow('no active liquidity');
+  });
+
+  it('has no instant route when every swap fails', async () => {
+    const router = createRouter({ queue: '1000', ekubo: new Error('down'), nostra: '0' });
+
+    const quote = await router.quote(AMOUNT);
+
+    expect(quote.routes.map(({ error }) => error)).toEqual([undefined, 'down', 'Nostra pair has no liquidity']);
+    expect(quote.bestInstant).toBeUndefined();
+  });
+
+  it('asks the Nostra pair for exactly the quoted output, whatever the slippage tolerance', async () => {
+    const router = createRouter({ queue: new Error('paused'), ekubo: new Error('down'), nostra: '10000' });
+
+    const quote = await router.quote(AMOUNT, { slippageBps: 100 });
+    const nostra = quote.routes.find(({ route }) => route === 'nostra');
+
+    expect(nostra).toMatchObject({ expectedSTRK: '10000', minimumSTRK: '10000' });
+    // swap(amount0Out: u256, amount1Out: u256, to, data): STRK is token1
+    expect(nostra?.calls[1]?.calldata.slice(0, 5)).toEqual(['0', '0', '10000', '0', BigInt(RECEIVER).toString()]);
+  });
+
+  it('rejects non-positive amounts and invalid receivers', async () => {
+    const router = createRouter({ queue: '1', ekubo: '1', nostra: '1' });
+
+    await expect(router.quote('0')).rejects.toThrow('must be positive');
+    await expect(router.quote(AMOUNT, { receiver: 'not an address' })).rejects.toThrow('Invalid receiver');
+  });
+});
@@ -0,0 +1,109 @@
+import type { CallData, Event, EventFilter } from '../../types';
+import type { StarknetService } from '../starknet';
+import { WithdrawalQueueService } from '../withdrawal-queue';
+
+const OWNER = '0x123';
+const NOW = 1_700_000_000;
+
+interface QueueRequest {
+  amount: bigint;
+  claimed?: boolean;
+  unlockTime: number;
+}
+
+function transfer(id: number, blockNumber: number): Event {
+  return {
+    transactionHash: `0x${id.toString(16)}`,
+    blockNumber,
+    blockHash: '0x0',
+    address: '0x0',
+    keys: ['0x0', '0x0', OWNER, `0x${id.toString(16)}`, '0x0'],
+    data: [],
+  };
+}
+
+// Serves the queue state and requests from memory; the owner received the NFT of every id in `owned`
+function createService(requests: Record<number, QueueRequest>, owed: bigint, owned: number[]) {
+  const reads: number[] = [];
+  const callContract = jest.fn(async ({ entrypoint, calldata }: CallData) => {
+    if (entrypoint === 'get_queue_state') {
+      return [String(Math.max(...Object.keys(requests).map(Number))), owed.toString(), '0', '0'];
+    }
+    const id = Number(calldata?.[0] ?? 0);
+    reads.push(id);
+    const request = requests[id] ?? { amount: 0n, unlockTime: 0 };
+    return [
+      request.amount.toString(),
+      request.amount.toString(),
+      request.claimed ? '1' : '0',
+      '0',
+      String(request.unlockTime),
+    ];
+  });
+  const starknetService = {
+    callContract,
+    getEvents: async (filter: EventFilter) =>
+      filter.keys?.[2] ? owned.map((id, i) => transfer(id, i + 1)) : [],
+    getBlockInfo: async () => ({ timestamp: NOW }),
+  } as unknown as StarknetService;
+
+  return { service: new WithdrawalQueueService(starknetService), reads };
+}
+
+describe('WithdrawalQueueService.getRequests', () => {
+  it('leaves unlocked requests pending while the STRK the queue owes is owed to them', async () => {
+    // The queue still owes 150 STRK: all of request 5 and half of request 4
+    const unlocked = NOW - 1;
+    const { service } = createService(
+      {
+        1: { amount: 100n, unlockTime: unlocked },
+        2: { amount: 100n, unlockTime: unlocked },
+        3: { amount: 100n, unlockTime: NOW + 1 },
+        4: { amount: 100n, unlockTime: unlocked },
+        5: { amount: 100n, unlockTime: unlocked },
+      },
+      150n,
+      [2, 3, 4]
+    );
+
+    const requests = await service.getRequests(OWNER);
+
+    expect(requests.map(({ id, status }) => [id, status])).toEqual([
+      ['2', 'claimable'],
+      ['3', 'pending'],
+      ['4', 'pending'],
+    ]);
+  });
+
+  it('only walks back through the requests that cover what the queue owes', async () => {
+    const unlocked = NOW - 1;
+    const requests: Record<number, QueueRequest> = {};
+    for (let id = 1; id <= 50; id++) {
+      requests[id] = { amount: 10n, unlockTime: unlocked };
+    }
+    const { service, reads } = createService(requests, 25n, [1, 47, 48]);
+
+    const result = await service.getRequests(OWNER);
+
+    expect(result.map(({ status }) => status)).toEqual(['claimable', 'claimable', 'pending']);
+    // The owner's three requests, then one batch from request 50 down, which covers the 25 STRK
+    expect(reads).toHaveLength(3 + 20);
+    expect(Math.min(...reads.slice(3))).toBe(31);
+  });
+
+  it('marks claimed requests and needs no queue state when nothing is unlocked', async () => {
+    const { service, reads } = createService(
+      {
+        1: { amount: 100n, unlockTime: NOW - 1, claimed: true },
+        2: { amount: 100n, unlockTime: NOW + 1 },
+      },
+      1000n,
+      [1, 2]
+    );
+
+    const requests = await service.getRequests(OWNER);
+
+    expect(requests.map(({ status }) => status)).toEqual(['claimed', 'pending']);
+    expect(reads).toEqual([1, 2]);
+  });
+});
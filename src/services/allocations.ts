@@ -0,0 +1,135 @@
+// Allocation service
+import type {
+  AllocationData,
+  AllocationStatus,
+  CallData,
+  MerkleHashMethod,
+  TransactionOptions,
+  TransactionResult,
+} from '../types';
+import { ApiService } from './api';
+import { StarknetService } from './starknet';
+import { isValidStarknetAddress, verifyAllocationProof } from '../utils';
+
+/**
+ * Verifies and claims API allocations paid out by a Merkle distributor exposing
+ * `merkle_root()`, `amount_already_claimed(claimee)` and `claim(amount, proof)`
+ */
+export class AllocationService {
+  private starknetService: StarknetService;
+  private api: ApiService;
+  private distributor: string | undefined;
+  private hashMethod: MerkleHashMethod;
+
+  constructor(
+    starknetService: StarknetService,
+    api: ApiService,
+    distributor?: string,
+    hashMethod: MerkleHashMethod = 'pedersen'
+  ) {
+    this.starknetService = starknetService;
+    this.api = api;
+    this.distributor = distributor;
+    this.hashMethod = hashMethod;
+  }
+
+  /**
+   * Sets the distributor contract
+   */
+  setDistributor(distributor: string): void {
+    this.distributor = distributor;
+  }
+
+  /**
+   * Gets the allocation of an address from the API, failing if its proof does not verify
+   */
+  async getAllocation(address: string): Promise<AllocationData> {
+    const result = await this.api.getAllocation(address);
+    if (!result.success) {
+      throw new Error(`Failed to fetch allocation: ${result.error.message}`);
+    }
+    if (!this.verifyProof(result.data)) {
+      throw new Error(`Allocation proof of ${address} does not match root ${result.data.root}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Verifies an allocation proof against its root locally
+   */
+  verifyProof(allocation: AllocationData): boolean {
+    return verifyAllocationProof(allocation, this.hashMethod);
+  }
+
+  /**
+   * Checks an allocation against the distributor: root and amount already claimed
+   */
+  async getStatus(allocation: AllocationData): Promise<AllocationStatus> {
+    const distributor = this.getDistributorAddress();
+    const [root, claimed] = await Promise.all([
+      this.starknetService.callContract({
+        contractAddress: distributor,
+        entrypoint: 'merkle_root',
+        calldata: [],
+      }),
+      this.starknetService.callContract({
+        contractAddress: distributor,
+        entrypoint: 'amount_already_claimed',
+        calldata: [allocation.address],
+      }),
+    ]);
+
+    const onChainRoot = `0x${BigInt(root[0] ?? 0).toString(16)}`;
+    const claimedAmount = BigInt(claimed[0] ?? 0);
+    const remaining = BigInt(allocation.amount) - claimedAmount;
+
+    return {
+      allocation,
+      proofValid: this.verifyProof(allocation),
+      onChainRoot,
+      rootMatches: BigInt(onChainRoot) === BigInt(allocation.root),
+      claimedAmount: claimedAmount.toString(),
+      claimable: (remaining > 0n ? remaining : 0n).toString(),
+    };
+  }
+
+  /**
+   * Builds the claim call of an allocation
+   */
+  buildClaimCall(allocation: AllocationData): CallData {
+    return {
+      contractAddress: this.getDistributorAddress(),
+      entrypoint: 'claim',
+      calldata: [
+        BigInt(allocation.amount).toString(),
+        allocation.proof.length.toString(),
+        ...allocation.proof,
+      ],
+    };
+  }
+
+  /**
+   * Claims an allocation from the connected account after checking it against the distributor
+   */
+  async claim(allocation: AllocationData, options?: TransactionOptions): Promise<TransactionResult> {
+    const status = await this.getStatus(allocation);
+    if (!status.proofValid) {
+      throw new Error('Allocation proof is invalid');
+    }
+    if (!status.rootMatches) {
+      throw new Error(`Allocation root ${allocation.root} is not the distributor root ${status.onChainRoot}`);
+    }
+    if (BigInt(status.claimable) === 0n) {
+      throw new Error('Allocation is already claimed');
+    }
+
+    return this.starknetService.executeTransaction([this.buildClaimCall(allocation)], options);
+  }
+
+  private getDistributorAddress(): string {
+    if (!this.distributor || !isValidStarknetAddress(this.distributor)) {
+      throw new Error('Invalid allocation distributor address');
+    }
+    return this.distributor;
+  }
+}
@@ -0,0 +1,118 @@
+// Batch read provider
+import {
+  Block,
+  BlockIdentifier,
+  Call,
+  CallData,
+  GetBlockResponse,
+  num,
+  PendingBlock,
+  RpcProvider,
+  RpcProviderOptions,
+} from 'starknet';
+import { DEFAULT_BATCH_CACHE_SIZE } from '../constants';
+
+// Channel options that are set at runtime but left out of the channel types
+type ChannelOptions = Pick<RpcProviderOptions, 'baseFetch' | 'chainId' | 'transactionRetryIntervalFallback'>;
+
+/**
+ * RPC provider for bulk reads: identical calls are deduplicated and
+ * concurrent requests are sent as JSON-RPC batches
+ */
+export class BatchReadProvider extends RpcProvider {
+  private readCache: Map<string, Promise<unknown>>;
+  private cacheSize: number;
+
+  /**
+   * Creates a batch provider with the options of an RPC provider, e.g. its node, headers, retries
+   * and spec version
+   */
+  constructor(provider: RpcProvider, batchInterval: number = 0, cacheSize: number = DEFAULT_BATCH_CACHE_SIZE) {
+    super({ ...BatchReadProvider.getOptions(provider), batch: batchInterval });
+    this.readCache = new Map();
+    this.cacheSize = cacheSize;
+  }
+
+  /**
+   * Checks whether a provider talks to a node over JSON-RPC, which a batch provider can be built from
+   */
+  static supports(provider: unknown): provider is RpcProvider {
+    return (
+      provider instanceof RpcProvider ||
+      (typeof provider === 'object' && provider !== null && typeof (provider as RpcProvider).channel?.nodeUrl === 'string')
+    );
+  }
+
+  /**
+   * Calls a contract, reusing the result of an identical earlier call
+   */
+  override async callContract(call: Call, blockIdentifier?: BlockIdentifier): Promise<string[]> {
+    const calldata = CallData.toCalldata(call.calldata ?? []).join(',');
+    const key = `call:${num.toHex(call.contractAddress)}:${call.entrypoint}:${calldata}:${blockIdentifier ?? 'default'}`;
+
+    return this.cached(key, () => super.callContract(call, blockIdentifier));
+  }
+
+  /**
+   * Gets a block, reusing the result of an earlier request for it
+   */
+  override getBlock(): Promise<PendingBlock>;
+  override getBlock(blockIdentifier: 'pending'): Promise<PendingBlock>;
+  override getBlock(blockIdentifier: 'latest'): Promise<Block>;
+  override getBlock(blockIdentifier?: BlockIdentifier): Promise<GetBlockResponse>;
+  override async getBlock(blockIdentifier?: BlockIdentifier): Promise<GetBlockResponse> {
+    return this.cached(`block:${blockIdentifier ?? 'default'}`, () => super.getBlock(blockIdentifier));
+  }
+
+  /**
+   * Clears all cached reads
+   */
+  clearCache(): void {
+    this.readCache.clear();
+  }
+
+  private cached<T>(key: string, read: () => Promise<T>): Promise<T> {
+    const existing = this.readCache.get(key) as Promise<T> | undefined;
+    if (existing) {
+      // Reinserted so the least recently used reads are evicted first
+      this.readCache.delete(key);
+      this.readCache.set(key, existing);
+      return existing;
+    }
+
+    const result = read().catch(error => {
+      // Failed reads are not cached so they can be retried
+      this.readCache.delete(key);
+      throw error;
+    });
+    this.readCache.set(key, result);
+    if (this.readCache.size > this.cacheSize) {
+      const oldest = this.readCache.keys().next();
+      if (!oldest.done) {
+        this.readCache.delete(oldest.value);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Gets the options an RPC provider's channel was created with
+   */
+  private static getOptions(provider: RpcProvider): RpcProviderOptions {
+    const channel = provider.channel;
+    const runtime = channel as unknown as ChannelOptions;
+    return {
+      nodeUrl: channel.nodeUrl,
+      headers: channel.headers,
+      retries: channel.retries,
+      blockIdentifier: channel.blockIdentifier,
+      specVersion: channel.channelSpecVersion,
+      waitMode: channel.waitMode,
+      ...(runtime.baseFetch ? { baseFetch: runtime.baseFetch } : {}),
+      ...(runtime.chainId ? { chainId: runtime.chainId } : {}),
+      ...(runtime.transactionRetryIntervalFallback !== undefined
+        ? { transactionRetryIntervalFallback: runtime.transactionRetryIntervalFallback }
+        : {}),
+    };
+  }
+}
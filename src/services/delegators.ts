@@ -0,0 +1,232 @@
+// Delegator service
+import { num } from 'starknet';
+import type {
+  DelegatorEvent,
+  DelegatorHistoryOptions,
+  DelegatorInfo,
+  Network,
+  StakeDistribution,
+} from '../types';
+import { CONTRACTS } from '../constants';
+import { decodeU256, getEventSelector, isSameAddress, isValidStarknetAddress } from '../utils';
+import { createDefaultDeploymentTimeline, DeploymentTimeline } from './deployment-timeline';
+import { StarknetService } from './starknet';
+
+// LST events by type; every member is in the event data
+const DELEGATOR_EVENTS = {
+  update: 'DelegatorUpdate',
+  stake: 'DispatchToStake',
+  withdrawQueue: 'DispatchToWithdrawQueue',
+} as const;
+
+// Emitted by a validator's staking pool on every change of a member's stake, keyed by the member
+const POOL_MEMBER_BALANCE_CHANGED = 'PoolMemberBalanceChanged';
+
+function isActiveDelegator(delegator: DelegatorInfo): boolean {
+  return delegator.isActive && delegator.isDelegator;
+}
+
+/**
+ * Reads how the LST spreads its STRK: the delegator contracts it stakes with validators through, and
+ * the STRK dispatched to each of them or to the withdrawal queue, rebuilt from the LST events
+ */
+export class DelegatorService {
+  private starknetService: StarknetService;
+  private network: string;
+  private deployments: DeploymentTimeline;
+
+  constructor(
+    starknetService: StarknetService,
+    network: string = 'mainnet',
+    deployments: DeploymentTimeline = createDefaultDeploymentTimeline()
+  ) {
+    this.starknetService = starknetService;
+    this.network = network;
+    this.deployments = deployments;
+  }
+
+  /**
+   * Gets the delegator updates and dispatches of the LST, oldest first
+   */
+  async getHistory(options: DelegatorHistoryOptions = {}): Promise<DelegatorEvent[]> {
+    const types = Object.keys(DELEGATOR_EVENTS) as (keyof typeof DELEGATOR_EVENTS)[];
+    const selectors = new Map(types.map(type => [BigInt(getEventSelector(DELEGATOR_EVENTS[type])), type]));
+    const events = await this.starknetService.getEvents({
+      address: this.getLSTAddress(),
+      keys: [types.map(type => getEventSelector(DELEGATOR_EVENTS[type]))],
+      fromBlock: options.fromBlock ?? this.deployments.getFirstBlock('lst.xSTRK', this.network as Network) ?? 0,
+      ...(options.toBlock !== undefined ? { toBlock: options.toBlock } : {}),
+    });
+
+    const history: DelegatorEvent[] = [];
+    for (const event of events) {
+      const type = selectors.get(BigInt(event.keys[0] ?? 0));
+      if (!type) continue;
+
+      const base = { type, blockNumber: event.blockNumber, transactionHash: event.transactionHash };
+      let entry: DelegatorEvent;
+      if (type === 'update') {
+        // delegator, DelegatorInfo { is_active, delegator_index }
+        entry = {
+          ...base,
+          delegator: num.toHex(event.data[0] ?? 0),
+          isActive: BigInt(event.data[1] ?? 0) !== 0n,
+          index: Number(BigInt(event.data[2] ?? 0)),
+        };
+      } else if (type === 'stake') {
+        // delegator, amount (u256)
+        entry = {
+          ...base,
+          delegator: num.toHex(event.data[0] ?? 0),
+          amount: decodeU256(event.data[1], event.data[2]).toString(),
+        };
+      } else {
+        // amount (u256)
+        entry = { ...base, amount: decodeU256(event.data[0], event.data[1]).toString() };
+      }
+
+      if (options.delegator && !isSameAddress(entry.delegator ?? '0x0', options.delegator)) continue;
+      history.push(entry);
+    }
+    return history;
+  }
+
+  /**
+   * Gets every delegator the LST has added or staked through, with its latest state
+   */
+  async getDelegators(): Promise<DelegatorInfo[]> {
+    return this.buildDelegators(await this.getHistory());
+  }
+
+  /**
+   * Gets the active delegators
+   */
+  async getActiveDelegators(): Promise<DelegatorInfo[]> {
+    const delegators = await this.getDelegators();
+    return delegators.filter(isActiveDelegator);
+  }
+
+  /**
+   * Checks whether an address is a delegator of the LST
+   */
+  async isDelegator(address: string): Promise<boolean> {
+    if (!isValidStarknetAddress(address)) {
+      throw new Error('Invalid address');
+    }
+    const result = await this.starknetService.callContract({
+      contractAddress: this.getLSTAddress(),
+      entrypoint: 'is_delegator',
+      calldata: [num.toHex(address)],
+    });
+    return BigInt(result[0] ?? 0) !== 0n;
+  }
+
+  /**
+   * Gets the current stake of each active delegator, the STRK dispatched to stake and to the withdrawal
+   * queue, and the STRK held by the LST
+   */
+  async getStakeDistribution(): Promise<StakeDistribution> {
+    const strk = CONTRACTS[this.network as keyof typeof CONTRACTS]?.strk || '';
+    const [history, balance] = await Promise.all([
+      this.getHistory(),
+      this.starknetService.callContract({
+        contractAddress: strk,
+        entrypoint: 'balance_of',
+        calldata: [this.getLSTAddress()],
+      }),
+    ]);
+    const delegators = (await this.buildDelegators(history)).filter(isActiveDelegator);
+    const staked = await Promise.all(delegators.map(delegator => this.getStakedAmount(delegator.address)));
+
+    const totalStaked = staked.reduce((total, amount) => total + amount, 0n);
+    const dispatchedToStake = delegators.reduce((total, delegator) => total + BigInt(delegator.totalDispatched), 0n);
+    const dispatchedToWithdrawQueue = history
+      .filter(event => event.type === 'withdrawQueue')
+      .reduce((total, event) => total + BigInt(event.amount ?? 0), 0n);
+
+    return {
+      delegators: delegators
+        .map((delegator, i) => {
+          const stakedAmount = staked[i] ?? 0n;
+          return {
+            ...delegator,
+            stakedAmount: stakedAmount.toString(),
+            shareBps: (totalStaked === 0n ? 0n : (stakedAmount * 10000n) / totalStaked).toString(),
+          };
+        })
+        .sort((a, b) => {
+          const difference = BigInt(b.stakedAmount) - BigInt(a.stakedAmount);
+          return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+        }),
+      totalStaked: totalStaked.toString(),
+      dispatchedToStake: dispatchedToStake.toString(),
+      dispatchedToWithdrawQueue: dispatchedToWithdrawQueue.toString(),
+      lstBalance: decodeU256(balance[0], balance[1]).toString(),
+    };
+  }
+
+  /**
+   * Gets the current stake of a delegator from the latest balance change in its validator's pool
+   */
+  private async getStakedAmount(delegator: string): Promise<bigint> {
+    const events = await this.starknetService.getEvents({
+      keys: [[getEventSelector(POOL_MEMBER_BALANCE_CHANGED)], [num.toHex(delegator)]],
+      fromBlock: this.deployments.getFirstBlock('lst.xSTRK', this.network as Network) ?? 0,
+    });
+    // Data: old delegated stake, new delegated stake (u128)
+    return BigInt(events[events.length - 1]?.data[1] ?? 0);
+  }
+
+  /**
+   * Folds the history into the latest state of each delegator, checked against is_delegator
+   */
+  private async buildDelegators(history: DelegatorEvent[]): Promise<DelegatorInfo[]> {
+    const delegators = new Map<string, DelegatorInfo>();
+    for (const event of history) {
+      if (!event.delegator) continue;
+
+      const key = BigInt(event.delegator).toString();
+      const delegator = delegators.get(key) ?? {
+        address: event.delegator,
+        isActive: false,
+        isDelegator: false,
+        totalDispatched: '0',
+        dispatchCount: 0,
+      };
+
+      if (event.type === 'update') {
+        delegator.isActive = event.isActive ?? false;
+        delegator.updatedAt = event.blockNumber;
+        delegator.addedAt = delegator.addedAt ?? event.blockNumber;
+        if (event.index !== undefined) {
+          delegator.index = event.index;
+        }
+      } else {
+        delegator.totalDispatched = (BigInt(delegator.totalDispatched) + BigInt(event.amount ?? 0)).toString();
+        delegator.dispatchCount += 1;
+      }
+      delegators.set(key, delegator);
+    }
+
+    const result = Array.from(delegators.values());
+    const registered = await Promise.all(result.map(delegator => this.isDelegator(delegator.address)));
+    result.forEach((delegator, i) => {
+      delegator.isDelegator = registered[i] ?? false;
+    });
+    // By index, delegators without one last in order of appearance
+    return result.sort((a, b) => {
+      if (a.index === undefined || b.index === undefined) {
+        return (a.index === undefined ? 1 : 0) - (b.index === undefined ? 1 : 0);
+      }
+      return a.index - b.index;
+    });
+  }
+
+  private getLSTAddress(): string {
+    const address = CONTRACTS[this.network as keyof typeof CONTRACTS]?.lst || '';
+    if (!isValidStarknetAddress(address)) {
+      throw new Error('Invalid LST contract address');
+    }
+    return address;
+  }
+}
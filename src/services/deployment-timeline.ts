@@ -0,0 +1,88 @@
+// Deployment timeline
+import { BlockIdentifier } from 'starknet';
+import type { ContractDeployment, Network } from '../types';
+import { DEPLOYMENTS } from '../constants';
+
+export class DeploymentTimeline {
+  private deployments: ContractDeployment[];
+
+  constructor(deployments: ContractDeployment[] = []) {
+    this.deployments = [];
+    deployments.forEach(deployment => this.register(deployment));
+  }
+
+  /**
+   * Adds a contract version to the timeline
+   */
+  register(deployment: ContractDeployment): void {
+    const overlapping = this.getVersions(deployment.contract, deployment.network).find(
+      existing =>
+        existing.version === deployment.version ||
+        (existing.fromBlock <= (deployment.toBlock ?? Infinity) &&
+          deployment.fromBlock <= (existing.toBlock ?? Infinity))
+    );
+    if (overlapping) {
+      throw new Error(
+        `${deployment.contract} ${deployment.version} overlaps ${overlapping.version} on ${deployment.network}`
+      );
+    }
+
+    this.deployments.push({ ...deployment });
+  }
+
+  /**
+   * Gets the version of a contract active at a block. Block tags resolve to the current version
+   */
+  resolve(
+    contract: string,
+    network: Network,
+    blockNumber?: BlockIdentifier
+  ): ContractDeployment | undefined {
+    const versions = this.getVersions(contract, network);
+
+    if (typeof blockNumber !== 'number') {
+      return versions.find(deployment => deployment.toBlock === undefined);
+    }
+    return versions.find(
+      deployment =>
+        deployment.fromBlock <= blockNumber && blockNumber <= (deployment.toBlock ?? Infinity)
+    );
+  }
+
+  /**
+   * Gets every version of a contract deployed at or before a block, oldest first
+   */
+  getVersions(contract: string, network: Network, blockNumber?: BlockIdentifier): ContractDeployment[] {
+    return this.deployments
+      .filter(
+        deployment =>
+          deployment.contract === contract &&
+          deployment.network === network &&
+          (typeof blockNumber !== 'number' || deployment.fromBlock <= blockNumber)
+      )
+      .sort((a, b) => a.fromBlock - b.fromBlock);
+  }
+
+  /**
+   * Gets the first block at which any version of a contract was active
+   */
+  getFirstBlock(contract: string, network: Network): number | undefined {
+    return this.getVersions(contract, network)[0]?.fromBlock;
+  }
+
+  /**
+   * Gets all deployments on a network
+   */
+  getDeployments(network: Network): ContractDeployment[] {
+    return this.deployments
+      .filter(deployment => deployment.network === network)
+      .map(deployment => ({ ...deployment }));
+  }
+}
+
+/**
+ * Creates a timeline with all contracts known to the SDK
+ */
+export function createDefaultDeploymentTimeline(): DeploymentTimeline {
+  return new DeploymentTimeline(DEPLOYMENTS);
+}
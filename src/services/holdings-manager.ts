@@ -5,19 +5,44 @@ import type {
   MultiProtocolHoldings,
   ProtocolType,
   ProtocolInfo,
+  ProtocolMetadata,
   SDKOptions,
-  ProtocolHoldings
+  ProtocolHoldings,
+  HoldingsHistory,
+  HoldingsHistoryOptions,
+  HoldingsHistoryPoint,
+  HoldingsDiff,
+  HoldingsDiffOptions,
+  HoldingsWatcherOptions,
+  BatchHoldingsOptions,
+  BatchHoldingsResult,
+  ValuedMultiProtocolHoldings,
+  ValuedProtocolHoldings,
+  MultiProtocolOptions,
+  ProtocolQueryResult,
+  RetryPolicy,
+  Network,
+  TokenAmount
 } from '../types';
+import { BlockIdentifier, RpcProvider } from 'starknet';
+import { DEFAULT_BATCH_CONCURRENCY, DEFAULT_RETRY_POLICY, DEPLOYMENTS } from '../constants';
+import { diffHoldings, getHoldingsTokens, mergeTokenAmounts } from '../utils';
+import { BaseHoldingsService } from './holdings';
+import { BatchReadProvider } from './batch-provider';
+import { DeploymentTimeline } from './deployment-timeline';
+import { HoldingsWatcher } from './holdings-watcher';
 import { LSTHoldingsService } from './protocols/lst';
-import { EkuboHoldingsService } from './protocols/ekubo';
-import { NostraLendingHoldingsService } from './protocols/nostraLending';
-import { NostraDexHoldingsService } from './protocols/nostraDex';
-import { OpusHoldingsService } from './protocols/opus';
-import { STRKFarmEkuboHoldingsService, STRKFarmSenseiHoldingsService } from './protocols/strkfarm';
-import { VesuHoldingsService } from './protocols/vesu';
+import {
+  BuiltInProtocolServices,
+  createDefaultProtocolRegistry,
+  HoldingsServiceFactory,
+  ProtocolRegistry,
+} from './protocol-registry';
 
 export class HoldingsManager {
-  private services: Map<ProtocolType, any>;
+  private services: Map<ProtocolType, BaseHoldingsService>;
+  private registry: ProtocolRegistry;
+  private deployments: DeploymentTimeline;
   private network: string;
   private provider: any;
   private sdkConfig: SDKOptions;
@@ -26,16 +51,65 @@ export class HoldingsManager {
     this.provider = config.provider;
     this.sdkConfig = config;
     this.services = new Map();
+    this.registry = createDefaultProtocolRegistry();
+    this.deployments = new DeploymentTimeline(config.config.deployments ?? DEPLOYMENTS);
 
     // Initialize all protocol services
-    this.services.set('lst', new LSTHoldingsService(config));
-    this.services.set('ekubo', new EkuboHoldingsService(config));
-    this.services.set('nostraLending', new NostraLendingHoldingsService(config));
-    this.services.set('nostraDex', new NostraDexHoldingsService(config));
-    this.services.set('opus', new OpusHoldingsService(config));
-    this.services.set('strkfarm', new STRKFarmSenseiHoldingsService(config));
-    this.services.set('strkfarmEkubo', new STRKFarmEkuboHoldingsService(config));
-    this.services.set('vesu', new VesuHoldingsService(config));
+    this.initializeServices();
+  }
+
+  /**
+   * Instantiates a service for every registered protocol
+   */
+  private initializeServices(): void {
+    this.services.clear();
+    for (const protocol of this.registry.getProtocolTypes()) {
+      this.initializeService(protocol);
+    }
+  }
+
+  /**
+   * Instantiates the service of a registered protocol
+   */
+  private initializeService(protocol: ProtocolType): void {
+    const service = this.createService(protocol, this.provider);
+    if (service) {
+      this.services.set(protocol, service);
+    }
+  }
+
+  /**
+   * Creates a service of a registered protocol bound to a provider
+   */
+  private createService(protocol: ProtocolType, provider: RpcProvider): BaseHoldingsService | undefined {
+    const registration = this.registry.get(protocol);
+    if (!registration) {
+      return undefined;
+    }
+
+    const service = registration.factory(
+      provider ? { ...this.sdkConfig, provider } : this.sdkConfig
+    );
+    if (provider) {
+      service.setProvider(provider);
+    }
+    return service;
+  }
+
+  /**
+   * Registers a custom protocol holdings service
+   */
+  registerProtocol(info: ProtocolInfo, factory: HoldingsServiceFactory): void {
+    this.registry.register(info, factory);
+    this.initializeService(info.type);
+  }
+
+  /**
+   * Removes a protocol and its service
+   */
+  unregisterProtocol(protocol: ProtocolType): boolean {
+    this.services.delete(protocol);
+    return this.registry.unregister(protocol);
   }
 
   /**
@@ -55,7 +129,18 @@ export class HoldingsManager {
     protocol: ProtocolType,
     request: HoldingsRequest
   ): Promise<HoldingsResponse> {
-    const service = this.services.get(protocol);
+    return this.queryProtocolHoldings(this.services, protocol, request);
+  }
+
+  /**
+   * Gets holdings for a specific protocol from a set of services
+   */
+  private async queryProtocolHoldings(
+    services: Map<ProtocolType, BaseHoldingsService>,
+    protocol: ProtocolType,
+    request: HoldingsRequest
+  ): Promise<HoldingsResponse> {
+    const service = services.get(protocol);
     if (!service) {
       return {
         success: false,
@@ -68,121 +153,579 @@ export class HoldingsManager {
     return service.getHoldings(request);
   }
 
+  /**
+   * Gets the xSTRK locked in a protocol and its market data at a block
+   */
+  async getProtocolMetrics(
+    protocol: ProtocolType,
+    blockNumber?: BlockIdentifier
+  ): Promise<ProtocolMetadata> {
+    const service = this.services.get(protocol);
+    if (!service) {
+      throw new Error(`Protocol ${protocol} not supported`);
+    }
+    if (!service.getMetrics) {
+      throw new Error(`Protocol ${protocol} does not report metrics`);
+    }
+    if (!this.isProtocolDeployed(protocol, blockNumber)) {
+      return { totalAssets: '0', tokens: [] };
+    }
+
+    return service.getMetrics(blockNumber);
+  }
+
   /**
    * Gets holdings for multiple protocols
    */
   async getMultiProtocolHoldings(
     request: HoldingsRequest,
-    protocols: ProtocolType[] = ['lst', 'ekubo', 'nostraLending', 'nostraDex', 'opus', 'strkfarm', 'strkfarmEkubo', 'vesu']
+    protocols: ProtocolType[] = this.getDefaultProtocols(),
+    options: MultiProtocolOptions = {}
   ): Promise<MultiProtocolHoldings> {
-    const byProtocol: Record<ProtocolType, ProtocolHoldings> = {
-      lst: { xSTRKAmount: '0', STRKAmount: '0' },
-      ekubo: { xSTRKAmount: '0', STRKAmount: '0' },
-      nostraLending: { xSTRKAmount: '0', STRKAmount: '0' },
-      nostraDex: { xSTRKAmount: '0', STRKAmount: '0' },
-      opus: { xSTRKAmount: '0', STRKAmount: '0' },
-      strkfarm: { xSTRKAmount: '0', STRKAmount: '0' },
-      strkfarmEkubo: { xSTRKAmount: '0', STRKAmount: '0' },
-      vesu: { xSTRKAmount: '0', STRKAmount: '0' },
+    return this.collectHoldings(this.services, request, protocols, options);
+  }
+
+  /**
+   * Gets holdings for multiple protocols from a set of services
+   */
+  private async collectHoldings(
+    services: Map<ProtocolType, BaseHoldingsService>,
+    request: HoldingsRequest,
+    protocols: ProtocolType[],
+    options: MultiProtocolOptions = {}
+  ): Promise<MultiProtocolHoldings> {
+    const retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+
+    const outcomes = await Promise.all(
+      protocols.map(protocol => this.queryWithRetry(services, protocol, request, retryPolicy, options.onRetry))
+    );
+
+    const byProtocol: Record<string, ProtocolHoldings> = {};
+    const results: Record<string, ProtocolQueryResult> = {};
+    let xSTRKAmount = BigInt(0);
+    let STRKAmount = BigInt(0);
+    const tokens: TokenAmount[][] = [];
+
+    for (const { result, data } of outcomes) {
+      results[result.protocol] = result;
+      // Failed protocols are left out rather than reported as zero holdings
+      if (result.status === 'failed' || !data) {
+        continue;
+      }
+
+      // Protocols holding only xSTRK/STRK may not report tokens themselves
+      const protocolTokens = getHoldingsTokens(data, this.network as Network);
+      byProtocol[result.protocol] = { ...data, tokens: protocolTokens };
+      xSTRKAmount += BigInt(data.xSTRKAmount);
+      STRKAmount += BigInt(data.STRKAmount);
+      tokens.push(protocolTokens);
+    }
+
+    const failed = Object.values(results).filter(result => result.status === 'failed');
+    if (failed.length > 0 && (options.mode ?? 'strict') === 'strict') {
+      throw new Error(
+        `Failed to fetch holdings for ${failed
+          .map(result => `${result.protocol} (${result.error})`)
+          .join(', ')}`
+      );
+    }
+
+    return {
+      total: {
+        xSTRKAmount: xSTRKAmount.toString(),
+        STRKAmount: STRKAmount.toString(),
+        tokens: mergeTokenAmounts(...tokens),
+      },
+      byProtocol,
+      protocols,
+      results,
     };
-    let total = { xSTRKAmount: '0', STRKAmount: '0' };
-
-    const promises = protocols.map(async (protocol) => {
-      let retry = 0;
-      const MAX_RETRIES = 1;
-      while (retry < MAX_RETRIES) {
-        try {
-          const response = await this.getProtocolHoldings(protocol, request);
-          if (response.success && response.data) {
-            byProtocol[protocol] = response.data;
-            total.xSTRKAmount = (BigInt(total.xSTRKAmount) + BigInt(response.data.xSTRKAmount)).toString();
-            total.STRKAmount = (BigInt(total.STRKAmount) + BigInt(response.data.STRKAmount)).toString();
-          } else {
-            byProtocol[protocol] = { xSTRKAmount: '0', STRKAmount: '0' };
-          }
-          break;
-        } catch (error) { 
-          console.warn(`Error fetching  for retry: ${retry + 1} ${protocol}:`);
-          retry++;
-          if (retry < MAX_RETRIES) {
-            await new Promise(resolve => setTimeout(resolve, 10000 * retry));
-          } else {
-            throw error;
-          }
+  }
+
+  /**
+   * Queries a protocol, retrying failures according to the retry policy
+   */
+  private async queryWithRetry(
+    services: Map<ProtocolType, BaseHoldingsService>,
+    protocol: ProtocolType,
+    request: HoldingsRequest,
+    retryPolicy: RetryPolicy,
+    onRetry?: MultiProtocolOptions['onRetry']
+  ): Promise<{ result: ProtocolQueryResult; data?: ProtocolHoldings }> {
+    const startTime = Date.now();
+
+    if (!this.isProtocolDeployed(protocol, request.blockNumber)) {
+      return {
+        result: { protocol, status: 'not-deployed', attempts: 0, latencyMs: 0 },
+        data: { xSTRKAmount: '0', STRKAmount: '0' },
+      };
+    }
+
+    const maxAttempts = Math.max(1, retryPolicy.maxAttempts);
+    let delay = retryPolicy.delayMs;
+    let lastError = 'Unknown error';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        const response = await this.queryProtocolHoldings(services, protocol, request);
+        if (response.success && response.data) {
+          return {
+            result: { protocol, status: 'ok', attempts: attempt, latencyMs: Date.now() - startTime },
+            data: response.data,
+          };
+        }
+
+        // Unsuccessful responses (e.g. unsupported protocol) are not retried
+        return {
+          result: {
+            protocol,
+            status: 'failed',
+            attempts: attempt,
+            latencyMs: Date.now() - startTime,
+            error: response.error ?? 'No holdings data returned',
+          },
+        };
+      } catch (error: unknown) {
+        lastError = error instanceof Error ? error.message : String(error);
+        if (attempt < maxAttempts) {
+          onRetry?.(protocol, attempt, lastError);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          delay *= retryPolicy.backoffMultiplier;
         }
       }
-    });
+    }
+
+    return {
+      result: {
+        protocol,
+        status: 'failed',
+        attempts: maxAttempts,
+        latencyMs: Date.now() - startTime,
+        error: lastError,
+      },
+    };
+  }
+
+  /**
+   * Checks if a protocol has contracts at a block based on its deployment block
+   */
+  private isProtocolDeployed(protocol: ProtocolType, blockNumber?: BlockIdentifier): boolean {
+    const deploymentBlock = this.getDeploymentBlock(protocol);
+    return (
+      deploymentBlock === undefined ||
+      typeof blockNumber !== 'number' ||
+      blockNumber >= deploymentBlock
+    );
+  }
+
+  /**
+   * Gets the first block of a protocol from the deployment timeline of its contracts, or as registered
+   */
+  private getDeploymentBlock(protocol: ProtocolType): number | undefined {
+    const info = this.registry.get(protocol)?.info;
+    if (!info?.contracts) {
+      return info?.deploymentBlock;
+    }
+
+    const firstBlocks = info.contracts
+      .map(contract => this.deployments.getFirstBlock(contract, this.network as Network))
+      .filter((block): block is number => block !== undefined);
+    return firstBlocks.length ? Math.min(...firstBlocks) : undefined;
+  }
+
+  /**
+   * Gets multi-protocol holdings valued in STRK at a single block
+   */
+  async getValuedHoldings(
+    request: HoldingsRequest,
+    protocols: ProtocolType[] = this.getDefaultProtocols(),
+    options: MultiProtocolOptions = {}
+  ): Promise<ValuedMultiProtocolHoldings> {
+    // Pin a block so holdings and the exchange rate are read at the same height
+    const blockNumber = await this.resolveBlockNumber(request.blockNumber);
+    const lstService = this.getLSTService();
+
+    const [holdings, totalAssets, totalSupply] = await Promise.all([
+      this.getMultiProtocolHoldings({ ...request, blockNumber }, protocols, options),
+      lstService.getTotalAssets(blockNumber),
+      lstService.getTotalSupply(blockNumber),
+    ]);
+    const assets = BigInt(totalAssets);
+    const supply = BigInt(totalSupply);
+    const exchangeRate = supply === 0n ? '0' : ((assets * 10n ** 18n) / supply).toString();
+
+    // Converted like convert_to_assets; bigint division truncates toward zero, so net (negative) amounts
+    // convert symmetrically
+    const valueHoldings = (data: ProtocolHoldings): ValuedProtocolHoldings => {
+      const xSTRKInSTRK = supply === 0n ? 0n : (BigInt(data.xSTRKAmount) * assets) / supply;
+      return {
+        ...data,
+        STRKValue: (xSTRKInSTRK + BigInt(data.STRKAmount)).toString(),
+      };
+    };
+
+    const byProtocol: Record<string, ValuedProtocolHoldings> = {};
+    for (const [protocol, data] of Object.entries(holdings.byProtocol)) {
+      byProtocol[protocol] = valueHoldings(data);
+    }
 
-    await Promise.all(promises);
+    const totalValue = Object.values(byProtocol).reduce(
+      (acc, data) => acc + BigInt(data.STRKValue),
+      BigInt(0)
+    );
 
     return {
-      total,
+      total: { ...holdings.total, STRKValue: totalValue.toString() },
       byProtocol,
+      protocols: holdings.protocols,
+      exchangeRate,
+      blockNumber,
+      ...(holdings.results ? { results: holdings.results } : {}),
+    };
+  }
+
+  /**
+   * Resolves a block tag or hash to a block number, so that several reads can share it
+   */
+  private async resolveBlockNumber(blockIdentifier?: BlockIdentifier): Promise<number> {
+    if (typeof blockIdentifier === 'number') {
+      return blockIdentifier;
+    }
+    if (blockIdentifier === undefined || blockIdentifier === 'latest' || blockIdentifier === 'pending') {
+      // The pending block has no number yet, its parent is the latest one
+      return this.provider.getBlockNumber();
+    }
+    const block = await this.provider.getBlock(blockIdentifier);
+    return block.block_number;
+  }
+
+  /**
+   * Gets the LST service used for xSTRK conversions
+   */
+  private getLSTService(): LSTHoldingsService {
+    const service = this.services.get('lst');
+    if (service instanceof LSTHoldingsService) {
+      return service;
+    }
+
+    const lstService = new LSTHoldingsService(this.sdkConfig);
+    if (this.provider) {
+      lstService.setProvider(this.provider);
+    }
+    return lstService;
+  }
+
+  /**
+   * Gets holdings for many addresses at one block, yielding each address as it completes
+   */
+  async *getBatchHoldings(
+    addresses: string[],
+    options: BatchHoldingsOptions = {}
+  ): AsyncGenerator<BatchHoldingsResult> {
+    const protocols = options.protocols ?? this.getDefaultProtocols();
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY);
+
+    // Shared reads are deduplicated by a provider scoped to this batch; other providers are read directly
+    const batchProvider = BatchReadProvider.supports(this.provider) ? new BatchReadProvider(this.provider) : undefined;
+    const provider = batchProvider ?? this.provider;
+    const blockNumber = options.blockNumber ?? (await provider.getBlockNumber());
+    const services = new Map<ProtocolType, BaseHoldingsService>();
+    for (const protocol of protocols) {
+      const service = this.createService(protocol, provider);
+      if (service) {
+        services.set(protocol, service);
+      }
+    }
+
+    const fetchHoldings = async (address: string): Promise<BatchHoldingsResult> => {
+      try {
+        const data = await this.collectHoldings(
+          services,
+          {
+            address,
+            provider,
+            blockNumber,
+            ...(options.includePositions ? { includePositions: true } : {}),
+          },
+          protocols,
+          options
+        );
+        return { address, blockNumber, success: true, data };
+      } catch (error: unknown) {
+        return {
+          address,
+          blockNumber,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    };
+
+    const pending = new Map<number, Promise<{ index: number; result: BatchHoldingsResult }>>();
+    let next = 0;
+    const startNext = () => {
+      const index = next++;
+      const address = addresses[index] as string;
+      pending.set(index, fetchHoldings(address).then(result => ({ index, result })));
+    };
+
+    while (next < addresses.length && pending.size < concurrency) {
+      startNext();
+    }
+
+    try {
+      while (pending.size > 0) {
+        const { index, result } = await Promise.race(pending.values());
+        pending.delete(index);
+        if (next < addresses.length) {
+          startNext();
+        }
+        yield result;
+      }
+    } finally {
+      // Also runs when the caller stops iterating early
+      batchProvider?.clearCache();
+    }
+  }
+
+  /**
+   * Gets holdings for many addresses at one block
+   */
+  async getBatchHoldingsList(
+    addresses: string[],
+    options: BatchHoldingsOptions = {}
+  ): Promise<BatchHoldingsResult[]> {
+    const results: BatchHoldingsResult[] = [];
+    for await (const result of this.getBatchHoldings(addresses, options)) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Samples multi-protocol holdings of an address across a block range
+   */
+  async getHoldingsHistory(
+    address: string,
+    options: HoldingsHistoryOptions
+  ): Promise<HoldingsHistory> {
+    const protocols = options.protocols ?? this.getDefaultProtocols();
+    const blockTimestamps = new Map<number, number>();
+    const blocks = options.timestamps
+      ? await this.getBlocksAtTimestamps(options.timestamps, blockTimestamps, options)
+      : await this.getBlocksInRange(protocols, options);
+
+    // Timestamps within the same block share one query
+    const snapshots = new Map<number, Promise<MultiProtocolHoldings>>();
+    const points: HoldingsHistoryPoint[] = [];
+    for (const [i, blockNumber] of blocks.entries()) {
+      let snapshot = snapshots.get(blockNumber);
+      if (!snapshot) {
+        // Protocols without contracts at this block are reported as zero without querying them
+        snapshot = this.getMultiProtocolHoldings(
+          {
+            address,
+            provider: this.provider,
+            blockNumber,
+            ...(options.includePositions ? { includePositions: true } : {}),
+          },
+          protocols,
+          options
+        );
+        snapshots.set(blockNumber, snapshot);
+      }
+      const holdings = await snapshot;
+      const requestedTimestamp = options.timestamps?.[i];
+
+      points.push({
+        blockNumber,
+        timestamp: blockTimestamps.get(blockNumber) ?? (await this.getBlockTimestamp(blockNumber)),
+        ...(requestedTimestamp !== undefined ? { requestedTimestamp } : {}),
+        total: holdings.total,
+        byProtocol: holdings.byProtocol,
+        ...(holdings.results ? { results: holdings.results } : {}),
+      });
+    }
+
+    return {
+      address,
       protocols,
+      points,
+    };
+  }
+
+  /**
+   * Diffs the holdings of an address between two blocks, per protocol and per position, linking each
+   * protocol's changes to the events between the blocks that caused them
+   */
+  async getHoldingsDiff(
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+    options: HoldingsDiffOptions = {}
+  ): Promise<HoldingsDiff> {
+    if (fromBlock > toBlock) {
+      throw new Error(`Block ${fromBlock} is after block ${toBlock}`);
+    }
+
+    const protocols = options.protocols ?? this.getDefaultProtocols();
+    const snapshot = (blockNumber: number) =>
+      this.getMultiProtocolHoldings(
+        { address, provider: this.provider, blockNumber, includePositions: true },
+        protocols,
+        options
+      );
+    const [before, after] = await Promise.all([snapshot(fromBlock), snapshot(toBlock)]);
+    const diff = diffHoldings(before, after);
+
+    if (options.includeEvents ?? true) {
+      await Promise.all(
+        Object.values(diff.byProtocol).map(async change => {
+          const service = this.services.get(change.protocol);
+          if (!service?.getChangeEvents) {
+            return;
+          }
+          // The earlier snapshot already includes the events of its own block
+          const events = await service.getChangeEvents(
+            address,
+            fromBlock + 1,
+            toBlock,
+            change.positions.map(position => position.id)
+          );
+          change.events = events.sort((a, b) => a.blockNumber - b.blockNumber);
+        })
+      );
+    }
+
+    return {
+      address,
+      fromBlock,
+      toBlock,
+      ...diff,
     };
   }
 
+  /**
+   * Creates a watcher that emits a change whenever the holdings of one of the addresses change
+   */
+  watch(options: HoldingsWatcherOptions): HoldingsWatcher {
+    return new HoldingsWatcher(this, { ...this.sdkConfig, provider: this.provider }, options);
+  }
+
+  /**
+   * Gets evenly spaced sample blocks, starting no earlier than the first deployment
+   */
+  private async getBlocksInRange(
+    protocols: ProtocolType[],
+    options: HoldingsHistoryOptions
+  ): Promise<number[]> {
+    if (!options.step || options.step <= 0) {
+      throw new Error('Either a positive step or timestamps must be provided');
+    }
+
+    const deploymentBlocks = protocols.map(
+      protocol => this.getDeploymentBlock(protocol) ?? 0
+    );
+    const earliestDeployment = deploymentBlocks.length ? Math.min(...deploymentBlocks) : 0;
+    const fromBlock = Math.max(options.fromBlock ?? earliestDeployment, earliestDeployment);
+    const toBlock = options.toBlock ?? (await this.provider.getBlockNumber());
+
+    if (fromBlock > toBlock) {
+      return [];
+    }
+
+    const blocks: number[] = [];
+    for (let block = fromBlock; block < toBlock; block += options.step) {
+      blocks.push(block);
+    }
+    blocks.push(toBlock);
+
+    return blocks;
+  }
+
+  /**
+   * Resolves the last block at or before each timestamp within fromBlock..toBlock, in input order.
+   * Fails if a timestamp is earlier than the first block of the range
+   */
+  private async getBlocksAtTimestamps(
+    timestamps: number[],
+    blockTimestamps: Map<number, number>,
+    options: HoldingsHistoryOptions
+  ): Promise<number[]> {
+    const fromBlock = options.fromBlock ?? 0;
+    const toBlock = options.toBlock ?? (await this.provider.getBlockNumber());
+    if (fromBlock > toBlock) {
+      throw new Error(`fromBlock ${fromBlock} is after toBlock ${toBlock}`);
+    }
+
+    const resolved = new Map<number, number>();
+    let low = fromBlock;
+
+    // Sorted timestamps let every search start where the previous one ended
+    for (const timestamp of Array.from(new Set(timestamps)).sort((a, b) => a - b)) {
+      let high = toBlock;
+      let found = -1;
+      while (low <= high) {
+        const mid = Math.floor((low + high) / 2);
+        const midTimestamp = await this.getBlockTimestamp(mid, blockTimestamps);
+        if (midTimestamp <= timestamp) {
+          found = mid;
+          low = mid + 1;
+        } else {
+          high = mid - 1;
+        }
+      }
+
+      if (found < 0) {
+        throw new Error(`No block at or before timestamp ${timestamp} from block ${fromBlock}`);
+      }
+      resolved.set(timestamp, found);
+      low = found;
+    }
+
+    return timestamps.map(timestamp => resolved.get(timestamp) ?? toBlock);
+  }
+
+  /**
+   * Gets the timestamp of a block
+   */
+  private async getBlockTimestamp(
+    blockNumber: number,
+    cache?: Map<number, number>
+  ): Promise<number> {
+    const cached = cache?.get(blockNumber);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const block = await this.provider.getBlock(blockNumber);
+    cache?.set(blockNumber, block.timestamp);
+    return block.timestamp;
+  }
+
+  /**
+   * Gets the active protocols supported on the current network
+   */
+  private getDefaultProtocols(): ProtocolType[] {
+    return this.registry
+      .getProtocolInfos()
+      .filter(info => info.isActive && info.supportedNetworks.includes(this.network))
+      .map(info => info.type);
+  }
+
   /**
    * Gets all available protocols
    */
   getAvailableProtocols(): ProtocolInfo[] {
-    return [
-      {
-        type: 'lst',
-        name: 'LST',
-        description: 'Liquid Staking Token protocol',
-        isActive: true,
-        supportedNetworks: ['mainnet', 'testnet'],
-      },
-      {
-        type: 'ekubo',
-        name: 'Ekubo',
-        description: 'Concentrated liquidity AMM',
-        isActive: true,
-        supportedNetworks: ['mainnet', 'testnet'],
-      },
-      {
-        type: 'nostraLending',
-        name: 'Nostra Lending',
-        description: 'Lending and borrowing protocol',
-        isActive: true,
-        supportedNetworks: ['mainnet', 'testnet'],
-      },
-      {
-        type: 'nostraDex',
-        name: 'Nostra Dex',
-        description: 'Dex protocol',
-        isActive: true,
-        supportedNetworks: ['mainnet', 'testnet'],
-      },
-      {
-        type: 'opus',
-        name: 'Opus',
-        description: 'CDP and lending protocol',
-        isActive: true,
-        supportedNetworks: ['mainnet', 'testnet'],
-      },
-      {
-        type: 'strkfarm',
-        name: 'STRKFarm',
-        description: 'Yield farming protocol',
-        isActive: true,
-        supportedNetworks: ['mainnet', 'testnet'],
-      },
-      {
-        type: 'vesu',
-        name: 'Vesu',
-        description: 'DeFi protocol with vaults and collateral',
-        isActive: true,
-        supportedNetworks: ['mainnet', 'testnet'],
-      },
-    ];
+    return this.registry.getProtocolInfos();
   }
 
   /**
    * Gets a specific protocol service
    */
-  getProtocolService(protocol: ProtocolType): any {
+  getProtocolService<P extends keyof BuiltInProtocolServices>(protocol: P): BuiltInProtocolServices[P] | undefined;
+  getProtocolService(protocol: ProtocolType): BaseHoldingsService | undefined;
+  getProtocolService(protocol: ProtocolType): BaseHoldingsService | undefined {
     return this.services.get(protocol);
   }
 
@@ -191,22 +734,13 @@ export class HoldingsManager {
    */
   updateNetwork(network: string): void {
     this.network = network;
-    this.services.clear();
-    
+    this.sdkConfig = {
+      ...this.sdkConfig,
+      config: { ...this.sdkConfig.config, network: network as Network },
+    };
+
     // Reinitialize services with new network
-    this.services.set('lst', new LSTHoldingsService(this.sdkConfig));
-    this.services.set('ekubo', new EkuboHoldingsService(this.sdkConfig));
-    this.services.set('nostraLending', new NostraLendingHoldingsService(this.sdkConfig));
-    this.services.set('nostraDex', new NostraDexHoldingsService(this.sdkConfig));
-    this.services.set('opus', new OpusHoldingsService(this.sdkConfig));
-    this.services.set('strkfarm', new STRKFarmSenseiHoldingsService(this.sdkConfig));
-    this.services.set('strkfarmEkubo', new STRKFarmEkuboHoldingsService(this.sdkConfig));
-    this.services.set('vesu', new VesuHoldingsService(this.sdkConfig));
-
-    // Set provider for all services
-    if (this.provider) {
-      this.setProvider(this.provider);
-    }
+    this.initializeServices();
   }
 
   /**
@@ -0,0 +1,265 @@
+// Holdings watcher
+import { num } from 'starknet';
+import type {
+  BuiltInProtocolType,
+  Event,
+  HoldingsChange,
+  HoldingsWatcherEvents,
+  HoldingsWatcherListener,
+  HoldingsWatcherOptions,
+  MultiProtocolHoldings,
+  ProtocolType,
+  SDKOptions,
+} from '../types';
+import { CONTRACTS, DEFAULT_WATCH_INTERVAL, DEPLOYMENTS } from '../constants';
+import { diffHoldings, getAllEvents, getEventSelector, isValidStarknetAddress } from '../utils';
+import { DeploymentTimeline } from './deployment-timeline';
+import { HoldingsManager } from './holdings-manager';
+
+// Contracts whose events name the user when their holdings in a protocol change. Ekubo core and TWAMM
+// events only name the positions contract, the token transfers of the same transaction name the user
+const WATCHED_CONTRACTS: Record<BuiltInProtocolType, string[]> = {
+  lst: ['lst.xSTRK'],
+  ekubo: ['ekubo.positions'],
+  nostraLending: ['nostra.nXSTRK', 'nostra.nXSTRKC', 'nostra.iXSTRK', 'nostra.iXSTRKC', 'nostra.dXSTRK'],
+  nostraDex: ['nostra.xSTRKSTRKPair'],
+  opus: ['opus.abbot', 'opus.shrine'],
+  strkfarm: ['strkfarm.xSTRKSensei'],
+  strkfarmEkubo: ['strkfarm.ekuboXSTRKSTRK'],
+  vesu: ['vesu.singleton', 'vesu.vXSTRK', 'vesu.vAlterscopeXSTRK', 'vesu.vRE7rUSDCXSTRK'],
+};
+
+/**
+ * Follows new blocks by polling the provider and recomputes the holdings of watched addresses
+ * whenever an event of a relevant contract names them
+ */
+export class HoldingsWatcher {
+  private holdings: HoldingsManager;
+  private sdkConfig: SDKOptions;
+  private options: HoldingsWatcherOptions;
+  private deployments: DeploymentTimeline;
+  private listeners: { [K in keyof HoldingsWatcherEvents]: Set<HoldingsWatcherListener<K>> };
+  private snapshots: Map<string, MultiProtocolHoldings>;
+  private lastBlock: number | undefined;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running: boolean;
+
+  constructor(holdings: HoldingsManager, config: SDKOptions, options: HoldingsWatcherOptions) {
+    const invalid = options.addresses.find(address => !isValidStarknetAddress(address));
+    if (invalid) {
+      throw new Error(`Invalid address provided: ${invalid}`);
+    }
+    if (options.pollInterval !== undefined && options.pollInterval <= 0) {
+      throw new Error('Poll interval must be positive');
+    }
+
+    this.holdings = holdings;
+    this.sdkConfig = config;
+    this.options = options;
+    this.deployments = new DeploymentTimeline(config.config.deployments ?? DEPLOYMENTS);
+    this.listeners = { change: new Set(), error: new Set() };
+    this.snapshots = new Map();
+    this.lastBlock = undefined;
+    this.timer = undefined;
+    this.running = false;
+  }
+
+  /**
+   * Subscribes to watcher events, returning a function that unsubscribes
+   */
+  on<K extends keyof HoldingsWatcherEvents>(event: K, listener: HoldingsWatcherListener<K>): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Unsubscribes a listener
+   */
+  off<K extends keyof HoldingsWatcherEvents>(event: K, listener: HoldingsWatcherListener<K>): void {
+    this.listeners[event].delete(listener);
+  }
+
+  /**
+   * Takes the initial holdings of every address at the latest block and starts polling
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    const blockNumber = await this.sdkConfig.provider.getBlockNumber();
+    for (const address of this.options.addresses) {
+      this.snapshots.set(address, await this.getHoldings(address, blockNumber));
+    }
+    this.lastBlock = blockNumber;
+    this.running = true;
+    this.schedule();
+  }
+
+  /**
+   * Stops polling. Holdings taken so far are kept, so the watcher can be started again
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Checks whether the watcher is polling
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Gets the last holdings computed for an address
+   */
+  getLatestHoldings(address: string): MultiProtocolHoldings | undefined {
+    return this.snapshots.get(address);
+  }
+
+  /**
+   * Recomputes every address at the latest block, e.g. to pick up value that moves without
+   * events naming the user such as pool prices
+   */
+  async refresh(): Promise<HoldingsChange[]> {
+    const blockNumber = await this.sdkConfig.provider.getBlockNumber();
+    return this.recompute(this.options.addresses, blockNumber);
+  }
+
+  private schedule(): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error: unknown) {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      }
+      this.schedule();
+    }, this.options.pollInterval ?? DEFAULT_WATCH_INTERVAL);
+  }
+
+  /**
+   * Recomputes the addresses named by events since the last block seen
+   */
+  private async poll(): Promise<void> {
+    const blockNumber: number = await this.sdkConfig.provider.getBlockNumber();
+    if (this.lastBlock === undefined || blockNumber <= this.lastBlock) {
+      return;
+    }
+
+    const touched = await this.getTouchedAddresses(this.lastBlock + 1, blockNumber);
+    await this.recompute(touched, blockNumber);
+    // Only advanced once every address is recomputed, so a failed poll covers the same blocks again
+    this.lastBlock = blockNumber;
+  }
+
+  private async recompute(addresses: string[], blockNumber: number): Promise<HoldingsChange[]> {
+    const changes: HoldingsChange[] = [];
+    for (const address of addresses) {
+      const current = await this.getHoldings(address, blockNumber);
+      const previous = this.snapshots.get(address);
+      this.snapshots.set(address, current);
+      if (!previous) continue;
+
+      const diff = diffHoldings(previous, current);
+      if (Object.keys(diff.byProtocol).length === 0) continue;
+
+      const change: HoldingsChange = { address, blockNumber, previous, current, diff };
+      changes.push(change);
+      this.emit('change', change);
+    }
+    return changes;
+  }
+
+  private getHoldings(address: string, blockNumber: number): Promise<MultiProtocolHoldings> {
+    return this.holdings.getMultiProtocolHoldings(
+      {
+        address,
+        provider: this.sdkConfig.provider,
+        blockNumber,
+        ...(this.options.includePositions ? { includePositions: true } : {}),
+      },
+      this.getProtocols(),
+      this.options
+    );
+  }
+
+  /**
+   * Gets the watched addresses named in the keys or data of events of relevant contracts
+   */
+  private async getTouchedAddresses(fromBlock: number, toBlock: number): Promise<string[]> {
+    const watched = new Map(this.options.addresses.map(address => [BigInt(address), address]));
+    const events = await Promise.all([
+      ...this.getWatchedContracts().map(contract =>
+        getAllEvents(this.sdkConfig.provider, { address: contract, fromBlock, toBlock })
+      ),
+      this.getStrkTransfers(fromBlock, toBlock),
+    ]);
+
+    const touched = new Set<string>();
+    for (const event of events.flat()) {
+      for (const felt of [...event.keys, ...event.data]) {
+        const address = watched.get(BigInt(felt));
+        if (address) {
+          touched.add(address);
+        }
+      }
+    }
+    return this.options.addresses.filter(address => touched.has(address));
+  }
+
+  /**
+   * Gets STRK transfers from or to watched addresses. STRK is too busy to scan whole, and STRK
+   * paid out by an integration is only ever seen in its transfer
+   */
+  private async getStrkTransfers(fromBlock: number, toBlock: number): Promise<Event[]> {
+    const strk = CONTRACTS[this.sdkConfig.config.network].strk;
+    const selector = getEventSelector('Transfer');
+    const addresses = this.options.addresses.map(address => num.toHex(address));
+    const [sent, received] = await Promise.all([
+      getAllEvents(this.sdkConfig.provider, { address: strk, keys: [[selector], addresses], fromBlock, toBlock }),
+      getAllEvents(this.sdkConfig.provider, { address: strk, keys: [[selector], [], addresses], fromBlock, toBlock }),
+    ]);
+    return [...sent, ...received];
+  }
+
+  /**
+   * Gets the addresses of the current versions of every contract relevant to the watched protocols
+   */
+  private getWatchedContracts(): string[] {
+    const network = this.sdkConfig.config.network;
+    const contracts = new Set<string>(this.options.contracts ?? []);
+    // Every integration moves xSTRK, so its transfers are always watched
+    const ids = new Set(['lst.xSTRK']);
+    for (const protocol of this.getProtocols()) {
+      (WATCHED_CONTRACTS[protocol as BuiltInProtocolType] ?? []).forEach(id => ids.add(id));
+    }
+
+    for (const id of ids) {
+      const deployment = this.deployments.resolve(id, network);
+      if (deployment) {
+        contracts.add(deployment.address);
+      }
+    }
+    return Array.from(contracts);
+  }
+
+  private getProtocols(): ProtocolType[] {
+    // Same defaults as the holdings manager
+    return this.options.protocols ?? this.holdings.getAvailableProtocols()
+      .filter(info => info.isActive && info.supportedNetworks.includes(this.holdings.getNetwork()))
+      .map(info => info.type);
+  }
+
+  private emit<K extends keyof HoldingsWatcherEvents>(event: K, payload: HoldingsWatcherEvents[K]): void {
+    for (const listener of this.listeners[event]) {
+      listener(payload);
+    }
+  }
+}
@@ -1,22 +1,44 @@
 // Base holdings service
-import { BlockIdentifier, RpcProvider } from 'starknet';
+import { BlockIdentifier, Contract, num, RpcProvider } from 'starknet';
 import type { 
+  ContractDeployment,
+  Event,
+  HoldingsChangeEvent,
   ProtocolHoldings, 
   ProtocolConfig, 
+  ProtocolPosition,
+  ProtocolMetadata,
   HoldingsRequest, 
   HoldingsResponse,
   MultiProtocolHoldings,
-  SDKOptions
+  SDKOptions,
+  TokenAmount
 } from '../types';
-import { isValidStarknetAddress } from '../utils';
+import {
+  decodeU256,
+  findToken,
+  getAllEvents,
+  getEventSelector,
+  isSameAddress,
+  isValidStarknetAddress,
+  mergeTokenAmounts,
+  projectTokenAmounts,
+} from '../utils';
+import { DEPLOYMENTS } from '../constants';
+import { DeploymentTimeline } from './deployment-timeline';
+
+// Decimals of tokens missing from TOKENS, read once per address
+const tokenDecimalsCache = new Map<string, Promise<number>>();
 
 export abstract class BaseHoldingsService {
   protected provider: RpcProvider;
   protected sdkConfig: SDKOptions;
+  protected deployments: DeploymentTimeline;
 
   constructor(config: SDKOptions) {
     this.sdkConfig = config;
     this.provider = config.provider;
+    this.deployments = new DeploymentTimeline(config.config.deployments ?? DEPLOYMENTS);
   }
 
   /**
@@ -31,21 +53,38 @@ export abstract class BaseHoldingsService {
    */
   protected isContractDeployed(
     blockNumber: BlockIdentifier = 'pending',
-    deploymentBlock: number,
-    maxBlock?: number
+    deploymentBlock: number
   ): boolean {
-    const lowerCondition =
-      Number.isInteger(blockNumber) &&
-      (blockNumber as number) < deploymentBlock;
+    // Block tags always refer to the chain head, after any deployment
+    return typeof blockNumber !== 'number' || blockNumber >= deploymentBlock;
+  }
 
-    const upperCondition =
-      maxBlock &&
-      ((blockNumber as number) > maxBlock ||
-        blockNumber === "latest" ||
-          blockNumber === "pending" ||
-          !blockNumber);
+  /**
+   * Gets the version of a contract active at a block on the configured network
+   */
+  protected getDeployment(contract: string, blockNumber?: BlockIdentifier): ContractDeployment | undefined {
+    return this.deployments.resolve(contract, this.sdkConfig.config.network, blockNumber);
+  }
 
-    return !(lowerCondition || upperCondition);
+  /**
+   * Gets the active version of a contract, failing if there is none at the block
+   */
+  protected requireDeployment(contract: string, blockNumber?: BlockIdentifier): ContractDeployment {
+    const deployment = this.getDeployment(contract, blockNumber);
+    if (!deployment) {
+      throw new Error(`${contract} is not active at block ${blockNumber ?? 'pending'}`);
+    }
+    return deployment;
+  }
+
+  /**
+   * Creates a contract for a deployment
+   */
+  protected getContract(deployment: ContractDeployment): Contract {
+    if (!deployment.abi) {
+      throw new Error(`No ABI for ${deployment.contract} ${deployment.version}`);
+    }
+    return new Contract(deployment.abi, deployment.address, this.provider);
   }
 
   /**
@@ -58,6 +97,194 @@ export abstract class BaseHoldingsService {
     };
   }
 
+  /**
+   * Creates zero metrics for an integration that is not deployed yet
+   */
+  protected createZeroMetrics(): ProtocolMetadata {
+    return {
+      totalAssets: '0',
+      tokens: [],
+    };
+  }
+
+  /**
+   * Creates a token amount, reading decimals on-chain for unknown tokens
+   */
+  protected async createTokenAmount(
+    token: string,
+    amount: bigint | string,
+    isDebt: boolean = false
+  ): Promise<TokenAmount> {
+    const known = findToken(this.sdkConfig.config.network, token);
+    const decimals = known ? known.decimals : await this.getTokenDecimals(token);
+
+    return {
+      token: num.toHex(token),
+      ...(known ? { symbol: known.symbol } : {}),
+      decimals,
+      amount: amount.toString(),
+      ...(isDebt ? { isDebt } : {}),
+    };
+  }
+
+  /**
+   * Creates holdings from token amounts, projecting them onto xSTRK/STRK
+   */
+  protected createTokenHoldings(tokens: TokenAmount[], subtractDebt: boolean = false): ProtocolHoldings {
+    const merged = mergeTokenAmounts(tokens);
+    return {
+      ...projectTokenAmounts(merged, this.sdkConfig.config.network, subtractDebt),
+      tokens: merged,
+    };
+  }
+
+  /**
+   * Creates a position entry
+   */
+  protected createPosition(
+    id: string,
+    type: ProtocolPosition['type'],
+    holdings: ProtocolHoldings,
+    metadata?: ProtocolPosition['metadata']
+  ): ProtocolPosition {
+    return {
+      id,
+      type,
+      xSTRKAmount: holdings.xSTRKAmount,
+      STRKAmount: holdings.STRKAmount,
+      amount: holdings.xSTRKAmount,
+      value: holdings.STRKAmount,
+      ...(holdings.tokens ? { tokens: holdings.tokens } : {}),
+      ...(metadata ? { metadata } : {}),
+    };
+  }
+
+  /**
+   * Keeps non-empty positions if they were requested, drops them otherwise
+   */
+  protected finalizeHoldings(
+    holdings: ProtocolHoldings,
+    includePositions?: boolean
+  ): ProtocolHoldings {
+    const totals: ProtocolHoldings = {
+      xSTRKAmount: holdings.xSTRKAmount,
+      STRKAmount: holdings.STRKAmount,
+      ...(holdings.tokens ? { tokens: holdings.tokens.filter(token => BigInt(token.amount) !== 0n) } : {}),
+    };
+    if (!includePositions) {
+      return totals;
+    }
+
+    return {
+      ...totals,
+      positions: (holdings.positions ?? []).filter(
+        position =>
+          BigInt(position.xSTRKAmount) !== 0n ||
+          BigInt(position.STRKAmount) !== 0n ||
+          (position.tokens ?? []).some(token => BigInt(token.amount) !== 0n)
+      ),
+    };
+  }
+
+  private getTokenDecimals(token: string): Promise<number> {
+    const key = num.toHex(token);
+    let decimals = tokenDecimalsCache.get(key);
+    if (!decimals) {
+      decimals = this.provider
+        .callContract({ contractAddress: key, entrypoint: 'decimals' })
+        .then(result => Number(BigInt(result[0] ?? 18)));
+      decimals.catch(() => tokenDecimalsCache.delete(key));
+      tokenDecimalsCache.set(key, decimals);
+    }
+    return decimals;
+  }
+
+  /**
+   * Gets every version of a contract that was active at some block of a range
+   */
+  protected getDeploymentsInRange(contract: string, fromBlock: number, toBlock: number): ContractDeployment[] {
+    return this.deployments
+      .getVersions(contract, this.sdkConfig.config.network, toBlock)
+      .filter(deployment => (deployment.toBlock ?? Infinity) >= fromBlock);
+  }
+
+  /**
+   * Gets the deposits, withdrawals and transfers of a user on a version of an ERC-4626 vault between two blocks
+   */
+  protected async getVaultEvents(
+    protocol: string,
+    deployment: ContractDeployment,
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+    positionId: string = deployment.address
+  ): Promise<HoldingsChangeEvent[]> {
+    const user = num.toHex(address);
+    const vault = deployment.address;
+    const query = (name: string, keys: string[][]) =>
+      getAllEvents(this.provider, {
+        address: vault,
+        keys: [[getEventSelector(name)], ...keys],
+        // Only the blocks at which this version was active
+        fromBlock: Math.max(fromBlock, deployment.fromBlock),
+        toBlock: Math.min(toBlock, deployment.toBlock ?? toBlock),
+      });
+
+    // Deposit keys: sender, owner. Withdraw keys: sender, receiver, owner. Transfer keys: from, to
+    const [deposits, withdrawals, sent, received] = await Promise.all([
+      query('Deposit', [[], [user]]),
+      query('Withdraw', [[], [], [user]]),
+      query('Transfer', [[user]]),
+      query('Transfer', [[], [user]]),
+    ]);
+
+    const toChangeEvent = (name: string, event: Event, values: Record<string, string>): HoldingsChangeEvent => ({
+      protocol,
+      name,
+      contract: num.toHex(vault),
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      positionId,
+      values,
+    });
+    const shares = (event: Event) => ({
+      assets: decodeU256(event.data[0], event.data[1]).toString(),
+      shares: decodeU256(event.data[2], event.data[3]).toString(),
+    });
+
+    // Self-transfers match both queries. Mints and burns are reported by the Deposit and
+    // Withdraw events of the same transaction
+    const transfers = [
+      ...sent,
+      ...received.filter(event => !isSameAddress(event.keys[1] ?? '0x0', user)),
+    ].filter(event => BigInt(event.keys[1] ?? 0) !== 0n && BigInt(event.keys[2] ?? 0) !== 0n);
+
+    return [
+      ...deposits.map(event =>
+        toChangeEvent('Deposit', event, {
+          sender: num.toHex(event.keys[1] ?? 0),
+          owner: num.toHex(event.keys[2] ?? 0),
+          ...shares(event),
+        })
+      ),
+      ...withdrawals.map(event =>
+        toChangeEvent('Withdraw', event, {
+          sender: num.toHex(event.keys[1] ?? 0),
+          receiver: num.toHex(event.keys[2] ?? 0),
+          owner: num.toHex(event.keys[3] ?? 0),
+          ...shares(event),
+        })
+      ),
+      ...transfers.map(event =>
+        toChangeEvent('Transfer', event, {
+          from: num.toHex(event.keys[1] ?? 0),
+          to: num.toHex(event.keys[2] ?? 0),
+          value: decodeU256(event.data[0], event.data[1]).toString(),
+        })
+      ),
+    ];
+  }
+
   /**
    * Validates address
    */
@@ -83,6 +310,7 @@ export abstract class BaseHoldingsService {
     return {
       xSTRKAmount: (BigInt(a.xSTRKAmount) + BigInt(b.xSTRKAmount)).toString(),
       STRKAmount: (BigInt(a.STRKAmount) + BigInt(b.STRKAmount)).toString(),
+      ...(a.tokens || b.tokens ? { tokens: mergeTokenAmounts(a.tokens ?? [], b.tokens ?? []) } : {}),
     };
   }
 
@@ -101,6 +329,21 @@ export abstract class BaseHoldingsService {
    */
   abstract getHoldings(request: HoldingsRequest): Promise<HoldingsResponse>;
 
+  /**
+   * Gets the xSTRK locked in the protocol and its market data, for protocols that expose totals
+   */
+  getMetrics?(blockNumber?: BlockIdentifier): Promise<ProtocolMetadata>;
+
+  /**
+   * Gets the events of a user between two blocks that changed their holdings, for protocols that can tell
+   */
+  getChangeEvents?(
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+    positionIds: string[]
+  ): Promise<HoldingsChangeEvent[]>;
+
   /**
    * Gets holdings for multiple protocols
    */
@@ -4,4 +4,13 @@ export * from './starknet';
 export * from './lst';
 export * from './holdings';
 export * from './holdings-manager';
-export * from './protocols'; 
\ No newline at end of file
+export * from './protocol-registry';
+export * from './batch-provider';
+export * from './protocols';
+export * from './deployment-timeline';
+export * from './points';
+export * from './allocations';
+export * from './holdings-watcher';
+export * from './withdrawal-queue';
+export * from './unstake';
+export * from './delegators';
@@ -1,7 +1,21 @@
 // LST service
-import type { CallData, TransactionOptions, TransactionResult } from '../types';
+import { cairo, RawArgsObject, CallData as StarknetCallData } from 'starknet';
+import type {
+  CallData,
+  LSTFeeConfig,
+  LSTQuote,
+  LSTQuoteAction,
+  LSTTransactionOptions,
+  TransactionOptions,
+  TransactionResult,
+} from '../types';
 import { CONTRACTS } from '../constants';
-import { isValidStarknetAddress } from '../utils';
+import { decodeU256, isValidStarknetAddress } from '../utils';
+import ERC4626_ABI from '../abis/erc4626.abi.json';
+
+// Encodes LST calls from the contract ABI
+const LST_CALLDATA = new StarknetCallData(ERC4626_ABI);
+const ONE_XSTRK = (10n ** 18n).toString();
 
 export class LSTService {
   private starknetService: any;
@@ -27,93 +41,273 @@ export class LSTService {
   }
 
   /**
-   * Deposits ETH to get LST tokens
+   * Deposits STRK to get xSTRK, approving STRK first if the allowance is too low
    */
-  async deposit(amount: string, options?: TransactionOptions): Promise<TransactionResult> {
-    if (!isValidStarknetAddress(this.getLSTAddress())) {
-      throw new Error('Invalid LST contract address');
-    }
-
-    const callData: CallData = {
-      contractAddress: this.getLSTAddress(),
-      entrypoint: 'deposit',
-      calldata: [amount],
-    };
-
-    return this.starknetService.executeTransaction([callData], options);
+  async deposit(amount: string, options: LSTTransactionOptions = {}): Promise<TransactionResult> {
+    const calls = await this.buildDepositCalls(amount, options.receiver);
+    return this.starknetService.executeTransaction(calls, this.getTransactionOptions(options));
   }
 
   /**
-   * Deposits ETH with a referral code
+   * Deposits STRK with a referral code, approving STRK first if the allowance is too low
    */
   async depositWithReferral(
     amount: string, 
     referralCode: string, 
-    options?: TransactionOptions
+    options: LSTTransactionOptions = {}
   ): Promise<TransactionResult> {
-    if (!isValidStarknetAddress(this.getLSTAddress())) {
-      throw new Error('Invalid LST contract address');
-    }
+    const calls = await this.buildDepositWithReferralCalls(amount, referralCode, options.receiver);
+    return this.starknetService.executeTransaction(calls, this.getTransactionOptions(options));
+  }
 
-    const callData: CallData = {
-      contractAddress: this.getLSTAddress(),
-      entrypoint: 'deposit_with_referral',
-      calldata: [amount, referralCode],
-    };
+  /**
+   * Mints an exact amount of xSTRK, approving the STRK it costs first if the allowance is too low
+   */
+  async mint(shares: string, options: LSTTransactionOptions = {}): Promise<TransactionResult> {
+    const calls = await this.buildMintCalls(shares, options.receiver);
+    return this.starknetService.executeTransaction(calls, this.getTransactionOptions(options));
+  }
 
-    return this.starknetService.executeTransaction([callData], options);
+  /**
+   * Redeems xSTRK for STRK
+   */
+  async redeem(shares: string, options: LSTTransactionOptions = {}): Promise<TransactionResult> {
+    const call = this.buildRedeemCall(shares, options.receiver, options.owner);
+    return this.starknetService.executeTransaction([call], this.getTransactionOptions(options));
   }
 
   /**
-   * Mints LST tokens
+   * Withdraws an exact amount of STRK by burning xSTRK
    */
-  async mint(amount: string, options?: TransactionOptions): Promise<TransactionResult> {
-    if (!isValidStarknetAddress(this.getLSTAddress())) {
-      throw new Error('Invalid LST contract address');
-    }
+  async withdraw(assets: string, options: LSTTransactionOptions = {}): Promise<TransactionResult> {
+    const call = this.buildWithdrawCall(assets, options.receiver, options.owner);
+    return this.starknetService.executeTransaction([call], this.getTransactionOptions(options));
+  }
 
-    const callData: CallData = {
-      contractAddress: this.getLSTAddress(),
-      entrypoint: 'mint',
-      calldata: [amount],
+  /**
+   * Builds the calls of a deposit, receiver defaulting to the connected account
+   */
+  async buildDepositCalls(amount: string, receiver?: string): Promise<CallData[]> {
+    const call = this.buildLSTCall('deposit', {
+      assets: cairo.uint256(amount),
+      receiver: receiver ?? this.starknetService.getAccountAddress(),
+    });
+    return this.withApproval(amount, call);
+  }
+
+  /**
+   * Builds the calls of a deposit with a referral code, receiver defaulting to the connected account
+   */
+  async buildDepositWithReferralCalls(
+    amount: string,
+    referralCode: string,
+    receiver?: string
+  ): Promise<CallData[]> {
+    const call = this.buildLSTCall('deposit_with_referral', {
+      assets: cairo.uint256(amount),
+      receiver: receiver ?? this.starknetService.getAccountAddress(),
+      referral: referralCode,
+    });
+    return this.withApproval(amount, call);
+  }
+
+  /**
+   * Builds the calls of a mint, approving what `preview_mint` charges for the shares
+   */
+  async buildMintCalls(shares: string, receiver?: string): Promise<CallData[]> {
+    const call = this.buildLSTCall('mint', {
+      shares: cairo.uint256(shares),
+      receiver: receiver ?? this.starknetService.getAccountAddress(),
+    });
+    const assets = await this.callLSTU256('preview_mint', { shares: cairo.uint256(shares) });
+    return this.withApproval(assets, call);
+  }
+
+  /**
+   * Builds a redeem call, receiver and owner defaulting to the connected account
+   */
+  buildRedeemCall(shares: string, receiver?: string, owner?: string): CallData {
+    const account = receiver && owner ? undefined : this.starknetService.getAccountAddress();
+    return this.buildLSTCall('redeem', {
+      shares: cairo.uint256(shares),
+      receiver: receiver ?? account,
+      owner: owner ?? account,
+    });
+  }
+
+  /**
+   * Builds a withdraw call, receiver and owner defaulting to the connected account
+   */
+  buildWithdrawCall(assets: string, receiver?: string, owner?: string): CallData {
+    const account = receiver && owner ? undefined : this.starknetService.getAccountAddress();
+    return this.buildLSTCall('withdraw', {
+      assets: cairo.uint256(assets),
+      receiver: receiver ?? account,
+      owner: owner ?? account,
+    });
+  }
+
+  /**
+   * Leaves out the LST fields of write options, keeping what the account executes with
+   */
+  private getTransactionOptions(options: LSTTransactionOptions): TransactionOptions {
+    return {
+      ...(options.maxFee !== undefined ? { maxFee: options.maxFee } : {}),
+      ...(options.nonce !== undefined ? { nonce: options.nonce } : {}),
+      ...(options.version !== undefined ? { version: options.version } : {}),
     };
+  }
 
-    return this.starknetService.executeTransaction([callData], options);
+  /**
+   * Prepends a STRK approval to a call if the connected account has not approved enough for the LST
+   */
+  private async withApproval(assets: string, call: CallData): Promise<CallData[]> {
+    const strk = CONTRACTS[this.network as keyof typeof CONTRACTS]?.strk || '';
+    const allowance = await this.starknetService.callContract({
+      contractAddress: strk,
+      entrypoint: 'allowance',
+      calldata: StarknetCallData.compile([this.starknetService.getAccountAddress(), this.getLSTAddress()]),
+    });
+    if (decodeU256(allowance[0], allowance[1]) >= BigInt(assets)) {
+      return [call];
+    }
+
+    const approval: CallData = {
+      contractAddress: strk,
+      entrypoint: 'approve',
+      calldata: StarknetCallData.compile([this.getLSTAddress(), cairo.uint256(assets)]),
+    };
+    return [approval, call];
   }
 
   /**
-   * Redeems LST tokens for ETH
+   * Builds a call to the LST, encoding its arguments with the LST ABI
    */
-  async redeem(amount: string, options?: TransactionOptions): Promise<TransactionResult> {
+  private buildLSTCall(entrypoint: string, args: RawArgsObject): CallData {
     if (!isValidStarknetAddress(this.getLSTAddress())) {
       throw new Error('Invalid LST contract address');
     }
 
-    const callData: CallData = {
+    return {
       contractAddress: this.getLSTAddress(),
-      entrypoint: 'redeem',
-      calldata: [amount],
+      entrypoint,
+      calldata: LST_CALLDATA.compile(entrypoint, args),
     };
+  }
 
-    return this.starknetService.executeTransaction([callData], options);
+  /**
+   * Calls an LST view function returning a u256
+   */
+  private async callLSTU256(entrypoint: string, args: RawArgsObject = {}): Promise<string> {
+    const result = await this.starknetService.callContract(this.buildLSTCall(entrypoint, args));
+    return decodeU256(result[0], result[1]).toString();
   }
 
   /**
-   * Gets the exchange rate between ETH and LST
+   * Gets the fee-free exchange rate: STRK per xSTRK, scaled by 1e18. Use the quotes to get what an action pays out
    */
   async getExchangeRate(): Promise<string> {
-    if (!isValidStarknetAddress(this.getLSTAddress())) {
-      throw new Error('Invalid LST contract address');
-    }
+    return this.callLSTU256('convert_to_assets', { shares: cairo.uint256(ONE_XSTRK) });
+  }
 
-    const callData: CallData = {
-      contractAddress: this.getLSTAddress(),
-      entrypoint: 'get_exchange_rate',
-      calldata: [],
+  /**
+   * Gets the fees configured on the LST, in basis points
+   */
+  async getFeeConfig(): Promise<LSTFeeConfig> {
+    // Config: deposit, withdraw and rewards fees (u256 each), treasury, withdrawal queue, staker
+    const result = await this.starknetService.callContract(this.buildLSTCall('get_config', {}));
+    return {
+      depositFeeBps: decodeU256(result[0], result[1]).toString(),
+      withdrawFeeBps: decodeU256(result[2], result[3]).toString(),
+      rewardsFeeBps: decodeU256(result[4], result[5]).toString(),
     };
+  }
 
-    const result = await this.starknetService.callContract(callData);
-    return result.result[0];
+  /**
+   * Quotes the xSTRK a deposit of STRK returns, limits checked for the receiver (default: connected account)
+   */
+  async quoteDeposit(assets: string, receiver?: string): Promise<LSTQuote> {
+    const [shares, feeFree, maxAmount, fees] = await Promise.all([
+      this.callLSTU256('preview_deposit', { assets: cairo.uint256(assets) }),
+      this.callLSTU256('convert_to_shares', { assets: cairo.uint256(assets) }),
+      this.callLSTU256('max_deposit', { receiver: receiver ?? this.starknetService.getAccountAddress() }),
+      this.getFeeConfig(),
+    ]);
+    return this.createQuote('deposit', assets, assets, shares, BigInt(feeFree) - BigInt(shares), fees.depositFeeBps, maxAmount);
+  }
+
+  /**
+   * Quotes the STRK a mint of xSTRK costs, limits checked for the receiver (default: connected account)
+   */
+  async quoteMint(shares: string, receiver?: string): Promise<LSTQuote> {
+    const [assets, feeFree, maxAmount, fees] = await Promise.all([
+      this.callLSTU256('preview_mint', { shares: cairo.uint256(shares) }),
+      this.callLSTU256('convert_to_assets', { shares: cairo.uint256(shares) }),
+      this.callLSTU256('max_mint', { receiver: receiver ?? this.starknetService.getAccountAddress() }),
+      this.getFeeConfig(),
+    ]);
+    return this.createQuote('mint', shares, assets, shares, BigInt(assets) - BigInt(feeFree), fees.depositFeeBps, maxAmount);
+  }
+
+  /**
+   * Quotes the STRK a redemption of xSTRK returns, limits checked for the owner (default: connected account)
+   */
+  async quoteRedeem(shares: string, owner?: string): Promise<LSTQuote> {
+    const [assets, feeFree, maxAmount, fees] = await Promise.all([
+      this.callLSTU256('preview_redeem', { shares: cairo.uint256(shares) }),
+      this.callLSTU256('convert_to_assets', { shares: cairo.uint256(shares) }),
+      this.callLSTU256('max_redeem', { owner: owner ?? this.starknetService.getAccountAddress() }),
+      this.getFeeConfig(),
+    ]);
+    return this.createQuote('redeem', shares, shares, assets, BigInt(feeFree) - BigInt(assets), fees.withdrawFeeBps, maxAmount);
+  }
+
+  /**
+   * Quotes the xSTRK a withdrawal of STRK burns, limits checked for the owner (default: connected account)
+   */
+  async quoteWithdraw(assets: string, owner?: string): Promise<LSTQuote> {
+    const [shares, feeFree, maxAmount, fees] = await Promise.all([
+      this.callLSTU256('preview_withdraw', { assets: cairo.uint256(assets) }),
+      this.callLSTU256('convert_to_shares', { assets: cairo.uint256(assets) }),
+      this.callLSTU256('max_withdraw', { owner: owner ?? this.starknetService.getAccountAddress() }),
+      this.getFeeConfig(),
+    ]);
+    return this.createQuote('withdraw', assets, shares, assets, BigInt(shares) - BigInt(feeFree), fees.withdrawFeeBps, maxAmount);
+  }
+
+  /**
+   * Creates a quote; STRK goes in on deposit and mint, xSTRK on redeem and withdraw
+   */
+  private createQuote(
+    action: LSTQuoteAction,
+    amount: string,
+    amountIn: string,
+    amountOut: string,
+    fee: bigint,
+    feeBps: string,
+    maxAmount: string
+  ): LSTQuote {
+    const strk = CONTRACTS[this.network as keyof typeof CONTRACTS]?.strk || '';
+    const xSTRK = this.getLSTAddress();
+    const staking = action === 'deposit' || action === 'mint';
+    const tokenIn = staking ? strk : xSTRK;
+    const tokenOut = staking ? xSTRK : strk;
+    // Deposit and redeem fix what goes in, so the fee shows in the output; mint and withdraw the other way round
+    const feeInOutput = action === 'deposit' || action === 'redeem';
+
+    return {
+      action,
+      amount,
+      tokenIn,
+      amountIn,
+      tokenOut,
+      amountOut,
+      feeToken: feeInOutput ? tokenOut : tokenIn,
+      fee: (fee > 0n ? fee : 0n).toString(),
+      feeBps,
+      maxAmount,
+      exceedsMax: BigInt(amount) > BigInt(maxAmount),
+    };
   }
 
   /**
@@ -124,14 +318,7 @@ export class LSTService {
       throw new Error('Invalid LST contract address');
     }
 
-    const callData: CallData = {
-      contractAddress: this.getLSTAddress(),
-      entrypoint: 'total_supply',
-      calldata: [],
-    };
-
-    const result = await this.starknetService.callContract(callData);
-    return result.result[0];
+    return this.callLSTU256('total_supply');
   }
 
   /**
@@ -146,14 +333,7 @@ export class LSTService {
       throw new Error('Invalid address');
     }
 
-    const callData: CallData = {
-      contractAddress: this.getLSTAddress(),
-      entrypoint: 'balance_of',
-      calldata: [address],
-    };
-
-    const result = await this.starknetService.callContract(callData);
-    return result.result[0];
+    return this.callLSTU256('balance_of', { account: address });
   }
 
   /**
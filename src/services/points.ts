@@ -0,0 +1,283 @@
+// Points calculator
+import type {
+  HoldingsHistoryPoint,
+  LeaderboardEntry,
+  PointsBreakdown,
+  PointsOptions,
+  PointsPeriod,
+  PointsReconciliation,
+  PointsReconciliationOptions,
+  PointsSchedule,
+  ProtocolType,
+} from '../types';
+import { fromWei } from '../utils';
+import { ApiService } from './api';
+import { HoldingsManager } from './holdings-manager';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const DEFAULT_POINTS_TOLERANCE = 0.01;
+
+/**
+ * Computes points from on-chain holdings so that the numbers reported by the Endur API can be reproduced
+ */
+export class PointsCalculator {
+  private holdings: HoldingsManager;
+  private api: ApiService;
+
+  constructor(holdings: HoldingsManager, api: ApiService) {
+    this.holdings = holdings;
+    this.api = api;
+  }
+
+  /**
+   * Computes the points of an address by sampling its holdings over the schedule
+   */
+  async computePoints(
+    address: string,
+    schedule: PointsSchedule,
+    options: PointsOptions = {}
+  ): Promise<PointsBreakdown> {
+    this.validateSchedule(schedule);
+
+    const fromTimestamp = Math.min(...schedule.periods.map(period => period.fromTimestamp));
+    const toTimestamp = this.getEndTimestamp(schedule, options);
+    const samples = this.getSampleTimestamps(schedule, fromTimestamp, toTimestamp, options);
+    const breakdown: PointsBreakdown = {
+      address,
+      fromTimestamp,
+      toTimestamp,
+      total: 0,
+      byProtocol: {},
+      byPeriod: {},
+      samples: samples.length,
+    };
+    if (samples.length === 0) {
+      return breakdown;
+    }
+
+    const history = await this.holdings.getHoldingsHistory(address, {
+      timestamps: samples,
+      protocols: this.getScheduledProtocols(schedule),
+      ...(options.mode ? { mode: options.mode } : {}),
+      ...(options.retry ? { retry: options.retry } : {}),
+    });
+    const points = [...history.points].sort((a, b) => a.timestamp - b.timestamp);
+
+    // Holdings at each sample are held until the next sample
+    samples.forEach((start, index) => {
+      const end = samples[index + 1] ?? toTimestamp;
+      const period = this.getPeriodAt(schedule, start);
+      const snapshot = this.getSnapshotAt(points, start);
+      if (!period || !snapshot || end <= start) {
+        return;
+      }
+
+      const days = (end - start) / SECONDS_PER_DAY;
+      for (const [protocol, holdings] of Object.entries(snapshot.byProtocol)) {
+        const multiplier = period.multipliers[protocol] ?? 0;
+        // Net borrowers of xSTRK earn nothing rather than losing points
+        const held = Math.max(fromWei(holdings.xSTRKAmount), 0);
+        const earned = held * multiplier * period.pointsPerDay * days;
+        if (earned === 0) continue;
+
+        breakdown.byProtocol[protocol] = (breakdown.byProtocol[protocol] ?? 0) + earned;
+        breakdown.byPeriod[period.name] = (breakdown.byPeriod[period.name] ?? 0) + earned;
+        breakdown.total += earned;
+      }
+    });
+
+    return breakdown;
+  }
+
+  /**
+   * Compares computed points of an address with the points reported by the API
+   */
+  async reconcile(
+    address: string,
+    schedule: PointsSchedule,
+    options: PointsReconciliationOptions = {}
+  ): Promise<PointsReconciliation> {
+    const [computed, reported] = await Promise.all([
+      this.computePoints(address, schedule, options),
+      this.api.getPoints(address),
+    ]);
+
+    if (!reported.success) {
+      return {
+        ...this.compare(address, computed, null, options),
+        error: reported.error.message,
+      };
+    }
+    return {
+      ...this.compare(address, computed, reported.data.total, options),
+      reportedBreakdown: reported.data,
+    };
+  }
+
+  /**
+   * Compares computed points of every leaderboard address with its reported points
+   */
+  async reconcileLeaderboard(
+    schedule: PointsSchedule,
+    limit: number = 100,
+    options: PointsReconciliationOptions = {}
+  ): Promise<PointsReconciliation[]> {
+    const leaderboard = await this.api.getLeaderboard(limit);
+    if (!leaderboard.success) {
+      throw new Error(`Failed to fetch leaderboard: ${leaderboard.error.message}`);
+    }
+
+    // Addresses are computed one at a time, each one samples its whole history
+    const results: PointsReconciliation[] = [];
+    for (const entry of leaderboard.data) {
+      results.push(await this.reconcileEntry(entry, schedule, options));
+    }
+    return results;
+  }
+
+  private async reconcileEntry(
+    entry: LeaderboardEntry,
+    schedule: PointsSchedule,
+    options: PointsReconciliationOptions
+  ): Promise<PointsReconciliation> {
+    try {
+      const computed = await this.computePoints(entry.address, schedule, options);
+      return this.compare(entry.address, computed, entry.points, options);
+    } catch (error: unknown) {
+      return {
+        address: entry.address,
+        computed: null,
+        reported: entry.points,
+        difference: null,
+        relativeDifference: null,
+        matches: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private compare(
+    address: string,
+    computed: PointsBreakdown,
+    reported: number | null,
+    options: PointsReconciliationOptions
+  ): PointsReconciliation {
+    if (reported === null) {
+      return {
+        address,
+        computed,
+        reported,
+        difference: null,
+        relativeDifference: null,
+        matches: false,
+      };
+    }
+
+    const difference = computed.total - reported;
+    const relativeDifference = reported === 0 ? null : difference / reported;
+    const tolerance = options.tolerance ?? DEFAULT_POINTS_TOLERANCE;
+
+    return {
+      address,
+      computed,
+      reported,
+      difference,
+      relativeDifference,
+      matches: relativeDifference === null
+        ? difference === 0
+        : Math.abs(relativeDifference) <= tolerance,
+    };
+  }
+
+  /**
+   * Checks that a schedule has periods and that they do not overlap
+   */
+  private validateSchedule(schedule: PointsSchedule): void {
+    if (schedule.periods.length === 0) {
+      throw new Error('Points schedule has no periods');
+    }
+
+    const periods = [...schedule.periods].sort((a, b) => a.fromTimestamp - b.fromTimestamp);
+    periods.forEach((period, index) => {
+      const next = periods[index + 1];
+      if (period.toTimestamp !== undefined && period.toTimestamp <= period.fromTimestamp) {
+        throw new Error(`Points period ${period.name} ends before it starts`);
+      }
+      if (next && (period.toTimestamp === undefined || period.toTimestamp > next.fromTimestamp)) {
+        throw new Error(`Points period ${period.name} overlaps ${next.name}`);
+      }
+    });
+  }
+
+  /**
+   * Gets the end of the computation: the requested end, capped by the end of the last period
+   */
+  private getEndTimestamp(schedule: PointsSchedule, options: PointsOptions): number {
+    const now = Math.floor(Date.now() / 1000);
+    const requested = options.toTimestamp ?? now;
+    const periodEnds = schedule.periods.map(period => period.toTimestamp ?? Infinity);
+    return Math.min(requested, Math.max(...periodEnds));
+  }
+
+  /**
+   * Gets evenly spaced sample timestamps, plus every period boundary so no sample spans two periods
+   */
+  private getSampleTimestamps(
+    schedule: PointsSchedule,
+    fromTimestamp: number,
+    toTimestamp: number,
+    options: PointsOptions
+  ): number[] {
+    const interval = options.sampleInterval ?? SECONDS_PER_DAY;
+    if (interval <= 0) {
+      throw new Error('Sample interval must be positive');
+    }
+
+    const samples = new Set<number>();
+    for (let timestamp = fromTimestamp; timestamp < toTimestamp; timestamp += interval) {
+      samples.add(timestamp);
+    }
+    for (const period of schedule.periods) {
+      for (const boundary of [period.fromTimestamp, period.toTimestamp]) {
+        if (boundary !== undefined && boundary >= fromTimestamp && boundary < toTimestamp) {
+          samples.add(boundary);
+        }
+      }
+    }
+
+    return Array.from(samples).sort((a, b) => a - b);
+  }
+
+  private getScheduledProtocols(schedule: PointsSchedule): ProtocolType[] {
+    const protocols = new Set<ProtocolType>();
+    for (const period of schedule.periods) {
+      Object.entries(period.multipliers)
+        .filter(([, multiplier]) => multiplier)
+        .forEach(([protocol]) => protocols.add(protocol));
+    }
+    return Array.from(protocols);
+  }
+
+  private getPeriodAt(schedule: PointsSchedule, timestamp: number): PointsPeriod | undefined {
+    return schedule.periods.find(
+      period =>
+        period.fromTimestamp <= timestamp &&
+        (period.toTimestamp === undefined || timestamp < period.toTimestamp)
+    );
+  }
+
+  /**
+   * Gets the last holdings snapshot taken at or before a timestamp
+   */
+  private getSnapshotAt(
+    points: HoldingsHistoryPoint[],
+    timestamp: number
+  ): HoldingsHistoryPoint | undefined {
+    let snapshot: HoldingsHistoryPoint | undefined;
+    for (const point of points) {
+      if (point.timestamp > timestamp) break;
+      snapshot = point;
+    }
+    return snapshot;
+  }
+}
@@ -0,0 +1,181 @@
+// Protocol registry
+import type { ProtocolInfo, ProtocolType, SDKOptions } from '../types';
+import { BaseHoldingsService } from './holdings';
+import { LSTHoldingsService } from './protocols/lst';
+import { EkuboHoldingsService } from './protocols/ekubo';
+import { NostraLendingHoldingsService } from './protocols/nostraLending';
+import { NostraDexHoldingsService } from './protocols/nostraDex';
+import { OpusHoldingsService } from './protocols/opus';
+import { STRKFarmEkuboHoldingsService, STRKFarmSenseiHoldingsService } from './protocols/strkfarm';
+import { VesuHoldingsService } from './protocols/vesu';
+
+export type HoldingsServiceFactory = (config: SDKOptions) => BaseHoldingsService;
+
+// Service classes of the protocols registered by default
+export interface BuiltInProtocolServices {
+  lst: LSTHoldingsService;
+  ekubo: EkuboHoldingsService;
+  nostraLending: NostraLendingHoldingsService;
+  nostraDex: NostraDexHoldingsService;
+  opus: OpusHoldingsService;
+  strkfarm: STRKFarmSenseiHoldingsService;
+  strkfarmEkubo: STRKFarmEkuboHoldingsService;
+  vesu: VesuHoldingsService;
+}
+
+export interface ProtocolRegistration {
+  info: ProtocolInfo;
+  factory: HoldingsServiceFactory;
+}
+
+export class ProtocolRegistry {
+  private protocols: Map<ProtocolType, ProtocolRegistration>;
+
+  constructor() {
+    this.protocols = new Map();
+  }
+
+  /**
+   * Registers a protocol holdings service
+   */
+  register(info: ProtocolInfo, factory: HoldingsServiceFactory): void {
+    if (this.protocols.has(info.type)) {
+      throw new Error(`Protocol ${info.type} is already registered`);
+    }
+
+    this.protocols.set(info.type, { info: { ...info }, factory });
+  }
+
+  /**
+   * Removes a protocol from the registry
+   */
+  unregister(protocol: ProtocolType): boolean {
+    return this.protocols.delete(protocol);
+  }
+
+  /**
+   * Checks if a protocol is registered
+   */
+  has(protocol: ProtocolType): boolean {
+    return this.protocols.has(protocol);
+  }
+
+  /**
+   * Gets the registration of a protocol
+   */
+  get(protocol: ProtocolType): ProtocolRegistration | undefined {
+    return this.protocols.get(protocol);
+  }
+
+  /**
+   * Gets the ids of all registered protocols
+   */
+  getProtocolTypes(): ProtocolType[] {
+    return Array.from(this.protocols.keys());
+  }
+
+  /**
+   * Gets metadata of all registered protocols
+   */
+  getProtocolInfos(): ProtocolInfo[] {
+    return Array.from(this.protocols.values()).map(({ info }) => ({ ...info }));
+  }
+}
+
+/**
+ * Creates a registry with all protocols supported out of the box
+ */
+export function createDefaultProtocolRegistry(): ProtocolRegistry {
+  const registry = new ProtocolRegistry();
+
+  registry.register(
+    {
+      type: 'lst',
+      name: 'LST',
+      description: 'Liquid Staking Token protocol',
+      isActive: true,
+      supportedNetworks: ['mainnet', 'testnet'],
+      contracts: ['lst.xSTRK'],
+    },
+    (config) => new LSTHoldingsService(config)
+  );
+  registry.register(
+    {
+      type: 'ekubo',
+      name: 'Ekubo',
+      description: 'Concentrated liquidity AMM',
+      isActive: true,
+      supportedNetworks: ['mainnet', 'testnet'],
+      contracts: ['ekubo.positions', 'ekubo.core'],
+    },
+    (config) => new EkuboHoldingsService(config)
+  );
+  registry.register(
+    {
+      type: 'nostraLending',
+      name: 'Nostra Lending',
+      description: 'Lending and borrowing protocol',
+      isActive: true,
+      supportedNetworks: ['mainnet', 'testnet'],
+      contracts: ['nostra.nXSTRK', 'nostra.nXSTRKC', 'nostra.iXSTRK', 'nostra.iXSTRKC', 'nostra.dXSTRK'],
+    },
+    (config) => new NostraLendingHoldingsService(config)
+  );
+  registry.register(
+    {
+      type: 'nostraDex',
+      name: 'Nostra Dex',
+      description: 'Dex protocol',
+      isActive: true,
+      supportedNetworks: ['mainnet', 'testnet'],
+      contracts: ['nostra.xSTRKSTRKPair'],
+    },
+    (config) => new NostraDexHoldingsService(config)
+  );
+  registry.register(
+    {
+      type: 'opus',
+      name: 'Opus',
+      description: 'CDP and lending protocol',
+      isActive: true,
+      supportedNetworks: ['mainnet', 'testnet'],
+      contracts: ['opus.abbot', 'opus.shrine'],
+    },
+    (config) => new OpusHoldingsService(config)
+  );
+  registry.register(
+    {
+      type: 'strkfarm',
+      name: 'STRKFarm',
+      description: 'Yield farming protocol',
+      isActive: true,
+      supportedNetworks: ['mainnet', 'testnet'],
+      contracts: ['strkfarm.xSTRKSensei'],
+    },
+    (config) => new STRKFarmSenseiHoldingsService(config)
+  );
+  registry.register(
+    {
+      type: 'strkfarmEkubo',
+      name: 'STRKFarm Ekubo',
+      description: 'Automated Ekubo liquidity vault',
+      isActive: true,
+      supportedNetworks: ['mainnet', 'testnet'],
+      contracts: ['strkfarm.ekuboXSTRKSTRK'],
+    },
+    (config) => new STRKFarmEkuboHoldingsService(config)
+  );
+  registry.register(
+    {
+      type: 'vesu',
+      name: 'Vesu',
+      description: 'DeFi protocol with vaults and collateral',
+      isActive: true,
+      supportedNetworks: ['mainnet', 'testnet'],
+      contracts: ['vesu.singleton', 'vesu.vXSTRK', 'vesu.vAlterscopeXSTRK', 'vesu.vRE7rUSDCXSTRK'],
+    },
+    (config) => new VesuHoldingsService(config)
+  );
+
+  return registry;
+}
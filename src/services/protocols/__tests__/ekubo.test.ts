@@ -0,0 +1,230 @@
+import type { Contract, RpcProvider } from 'starknet';
+import type { EkuboPoolKey } from '../../../types';
+import { getEventSelector } from '../../../utils';
+import { EkuboHoldingsService } from '../ekubo';
+
+const XSTRK = '0x28d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0a';
+const STRK = '0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d';
+const Q128 = 1n << 128n;
+const ONE = 10n ** 18n;
+const MAX_TICK = 88722883;
+
+function tick(value: number): { mag: bigint; sign: boolean } {
+  return { mag: BigInt(Math.abs(value)), sign: value < 0 };
+}
+
+// Answers core pool reads from a fixed price, liquidity and initialized ticks instead of the chain
+class TestEkuboHoldingsService extends EkuboHoldingsService {
+  constructor(
+    private readonly sqrtRatio: bigint,
+    private readonly liquidity: bigint,
+    private readonly ticks: { prev: number; next: number } = { prev: -MAX_TICK, next: MAX_TICK }
+  ) {
+    super({ config: { network: 'mainnet' }, provider: {} as RpcProvider });
+  }
+
+  protected override getContract(): Contract {
+    const results: Record<string, unknown> = {
+      get_pool_price: { sqrt_ratio: this.sqrtRatio, tick: tick(0) },
+      get_pool_liquidity: this.liquidity,
+      prev_initialized_tick: { 0: tick(this.ticks.prev), 1: true },
+      next_initialized_tick: { 0: tick(this.ticks.next), 1: true },
+    };
+    return { call: async (method: string) => results[method] } as unknown as Contract;
+  }
+}
+
+function poolKey(fee: bigint = 0n): EkuboPoolKey {
+  return { token0: XSTRK, token1: STRK, fee: fee.toString(), tickSpacing: '200', extension: '0x0' };
+}
+
+describe('EkuboHoldingsService.quoteExactIn', () => {
+  it('quotes a small swap at a price of 1 with almost no impact', async () => {
+    const service = new TestEkuboHoldingsService(Q128, 10n ** 30n);
+
+    const quote = await service.quoteExactIn(poolKey(), XSTRK, ONE.toString());
+
+    expect(quote.tokenOut).toBe(STRK);
+    expect(quote.marginalPrice).toBe(ONE.toString());
+    expect(BigInt(quote.amountOut)).toBeLessThan(ONE);
+    expect(ONE - BigInt(quote.amountOut)).toBeLessThanOrEqual(10n ** 6n + 1n);
+  });
+
+  it('matches a constant product swap on the virtual reserves of the range', async () => {
+    // Price of token0 in token1 is (sqrtRatio / 2^128)^2 = 4
+    const sqrtRatio = 2n * Q128;
+    const liquidity = 10n ** 24n;
+    const reserve0 = (liquidity * Q128) / sqrtRatio;
+    const reserve1 = (liquidity * sqrtRatio) / Q128;
+    const amountIn = 10n ** 21n;
+    const service = new TestEkuboHoldingsService(sqrtRatio, liquidity);
+
+    const sell0 = await service.quoteExactIn(poolKey(), XSTRK, amountIn.toString());
+    const sell1 = await service.quoteExactIn(poolKey(), STRK, amountIn.toString());
+
+    const expected0 = (reserve1 * amountIn) / (reserve0 + amountIn);
+    const expected1 = (reserve0 * amountIn) / (reserve1 + amountIn);
+    expect(BigInt(sell0.amountOut) - expected0).toBeLessThanOrEqual(2n);
+    expect(expected0 - BigInt(sell0.amountOut)).toBeLessThanOrEqual(2n);
+    expect(BigInt(sell1.amountOut) - expected1).toBeLessThanOrEqual(2n);
+    expect(expected1 - BigInt(sell1.amountOut)).toBeLessThanOrEqual(2n);
+  });
+
+  it('gives marginal prices in both directions from the sqrt ratio', async () => {
+    const service = new TestEkuboHoldingsService(2n * Q128, 10n ** 24n);
+
+    const sell0 = await service.quoteExactIn(poolKey(), XSTRK, ONE.toString());
+    const sell1 = await service.quoteExactIn(poolKey(), STRK, ONE.toString());
+
+    expect(sell0.marginalPrice).toBe((4n * ONE).toString());
+    expect(sell1.marginalPrice).toBe((ONE / 4n).toString());
+    expect(BigInt(sell0.effectivePrice)).toBeLessThan(4n * ONE);
+  });
+
+  it('takes the fee from the input', async () => {
+    // 1% fee as a fraction of 2^128
+    const fee = Q128 / 100n;
+    const service = new TestEkuboHoldingsService(Q128, 10n ** 36n);
+
+    const quote = await service.quoteExactIn(poolKey(fee), XSTRK, (1000n * ONE).toString());
+
+    expect(BigInt(quote.marginalPrice)).toBe((ONE * (Q128 - fee)) / Q128);
+    expect(BigInt(quote.amountOut)).toBeLessThanOrEqual(990n * ONE);
+    expect(BigInt(quote.amountOut)).toBeGreaterThan(989n * ONE);
+  });
+
+  it('caps amounts that would cross the next initialized tick and flags the quote as partial', async () => {
+    // Price 1 at tick 0, so the range edges are at a price of 1.000001^tick
+    const liquidity = 10n ** 24n;
+    const service = new TestEkuboHoldingsService(Q128, liquidity, { prev: -10000, next: 10000 });
+
+    const sell0 = await service.quoteExactIn(poolKey(), XSTRK, (10n ** 22n).toString());
+    const sell1 = await service.quoteExactIn(poolKey(), STRK, (10n ** 22n).toString());
+    const small = await service.quoteExactIn(poolKey(), XSTRK, ONE.toString());
+
+    // Virtual reserves are L / sqrt(p) and L * sqrt(p), with sqrt(p) = 1.000001^(tick / 2)
+    const edge = 1.000001 ** 5000;
+    expect(sell0.partial).toBe(true);
+    expect(Number(sell0.amountIn) / (1e24 * (edge - 1))).toBeCloseTo(1, 6);
+    expect(Number(sell0.amountOut) / (1e24 * (1 - 1 / edge))).toBeCloseTo(1, 6);
+    expect(sell1.partial).toBe(true);
+    expect(Number(sell1.amountIn) / (1e24 * (edge - 1))).toBeCloseTo(1, 6);
+    expect(small.partial).toBe(false);
+    expect(small.amountIn).toBe(ONE.toString());
+  });
+
+  it('rejects pools without liquidity, foreign tokens and non-positive amounts', async () => {
+    await expect(new TestEkuboHoldingsService(Q128, 0n).quoteExactIn(poolKey(), XSTRK, '1')).rejects.toThrow(
+      'no active liquidity'
+    );
+
+    const service = new TestEkuboHoldingsService(Q128, 10n ** 24n);
+    await expect(service.quoteExactIn(poolKey(), '0x123', '1')).rejects.toThrow('not part of the Ekubo pool');
+    await expect(service.quoteExactIn(poolKey(), XSTRK, '0')).rejects.toThrow('must be positive');
+  });
+});
+
+describe('EkuboHoldingsService.discoverOrders', () => {
+  const USER = '0x123';
+  const OTHER = '0x456';
+  const POSITIONS = '0x02e0af29598b407c8716b17f6d2795eca1b471413fa03fb145a5e33722184067';
+  const TWAMM = '0x043e4f09c32d13d43a880e85f69f7de93ceda62d6cf2581a582c6db635548fdc';
+  const NFT = '0x999';
+  const LIMIT_ORDERS = '0x888';
+  const TRANSFER = getEventSelector('Transfer');
+  const ORDER_UPDATED = getEventSelector('OrderUpdated');
+  // After the positions deployment, which event scans start from
+  const BLOCK = 200000;
+
+  interface EmittedEvent {
+    from_address: string;
+    block_number: number;
+    keys: string[];
+    data: string[];
+  }
+
+  function transfer(blockOffset: number, from: string, to: string, id: string): EmittedEvent {
+    return { from_address: NFT, block_number: BLOCK + blockOffset, keys: [TRANSFER, from, to, id, '0x0'], data: [] };
+  }
+
+  // OrderUpdated data: owner, salt, order key, sale rate or liquidity delta (i129)
+  function orderUpdated(address: string, blockOffset: number, salt: string, key: string[]): EmittedEvent {
+    return {
+      from_address: address,
+      block_number: BLOCK + blockOffset,
+      keys: [ORDER_UPDATED],
+      data: [POSITIONS, salt, ...key, '0x1', '0x0'],
+    };
+  }
+
+  // NFT 7 was minted to someone else and transferred in; NFT 8 was received and sent away
+  const EVENTS: EmittedEvent[] = [
+    transfer(10, '0x0', OTHER, '0x7'),
+    transfer(20, OTHER, USER, '0x7'),
+    transfer(30, '0x0', USER, '0x8'),
+    // TWAMM orders of NFT 7, the second placed after the transfer, and of an NFT the user never held
+    orderUpdated(TWAMM, 15, '0x7', [XSTRK, STRK, '0x0', '0x64', '0xc8']),
+    orderUpdated(TWAMM, 50, '0x7', [STRK, XSTRK, '0x0', '0x64', '0x12c']),
+    orderUpdated(TWAMM, 60, '0x9', [XSTRK, STRK, '0x0', '0x64', '0xc8']),
+    // A limit order of NFT 7 at tick -256, and one of NFT 8
+    orderUpdated(LIMIT_ORDERS, 55, '0x7', [XSTRK, STRK, '0x100', '0x1']),
+    orderUpdated(LIMIT_ORDERS, 56, '0x8', [XSTRK, STRK, '0x100', '0x0']),
+  ];
+
+  function matches(event: EmittedEvent, address: string, keys: string[][], fromBlock: number): boolean {
+    return (
+      BigInt(event.from_address) === BigInt(address) &&
+      event.block_number >= fromBlock &&
+      keys.every(
+        (accepted, i) => accepted.length === 0 || accepted.some(key => BigInt(key) === BigInt(event.keys[i] ?? -1))
+      )
+    );
+  }
+
+  function createProvider(): { provider: RpcProvider; fromBlocks: Map<string, number> } {
+    const fromBlocks = new Map<string, number>();
+    const provider = {
+      callContract: async ({ entrypoint, calldata }: { entrypoint: string; calldata: string[] }) => {
+        if (entrypoint === 'get_nft_address') return [NFT];
+        if (entrypoint === 'get_limit_orders_address') return [LIMIT_ORDERS];
+        // owner_of: NFT 8 has been sent away
+        return [calldata[0] === '0x8' ? OTHER : USER];
+      },
+      getEvents: async (filter: {
+        address: string;
+        keys: string[][];
+        from_block: { block_number: number };
+      }) => {
+        fromBlocks.set(filter.address, filter.from_block.block_number);
+        const events = EVENTS.filter(event =>
+          matches(event, filter.address, filter.keys, filter.from_block.block_number)
+        );
+        return { events: events.map(event => ({ ...event, transaction_hash: '0x1', block_hash: '0x1' })) };
+      },
+    } as unknown as RpcProvider;
+    return { provider, fromBlocks };
+  }
+
+  it('finds the orders of owned NFTs from the extension events since the oldest mint', async () => {
+    const { provider, fromBlocks } = createProvider();
+    const service = new EkuboHoldingsService({ config: { network: 'mainnet' }, provider });
+
+    const orders = await service.discoverOrders(USER);
+
+    expect(orders).toEqual([
+      {
+        id: '7',
+        type: 'twamm',
+        key: { sellToken: XSTRK, buyToken: STRK, fee: '0', startTime: 100, endTime: 200 },
+      },
+      {
+        id: '7',
+        type: 'twamm',
+        key: { sellToken: STRK, buyToken: XSTRK, fee: '0', startTime: 100, endTime: 300 },
+      },
+      { id: '7', type: 'limit', key: { token0: XSTRK, token1: STRK, tick: -256 } },
+    ]);
+    expect(fromBlocks.get(TWAMM)).toBe(BLOCK + 10);
+    expect(fromBlocks.get(LIMIT_ORDERS)).toBe(BLOCK + 10);
+  });
+});
@@ -0,0 +1,99 @@
+import type { Contract, RpcProvider } from 'starknet';
+import { NostraDexHoldingsService } from '../nostraDex';
+
+const ADDRESS = '0x123';
+const XSTRK = 0x28d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0an;
+const STRK = 0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938dn;
+
+interface PairState {
+  balance: bigint;
+  totalSupply: bigint;
+  reserves: [bigint, bigint];
+  amp: { amp_start: bigint; amp_end: bigint; start_time: bigint; end_time: bigint };
+}
+
+// Answers pair calls from a fixed state instead of the chain
+class TestNostraDexHoldingsService extends NostraDexHoldingsService {
+  constructor(private readonly state: PairState, provider: Partial<RpcProvider> = {}) {
+    super({ config: { network: 'mainnet' }, provider: provider as RpcProvider });
+  }
+
+  protected override getContract(): Contract {
+    const results: Record<string, unknown> = {
+      balance_of: this.state.balance,
+      total_supply: this.state.totalSupply,
+      get_reserves: this.state.reserves,
+      token_0: XSTRK,
+      token_1: STRK,
+      swap_fee: 4n,
+      amp_data: this.state.amp,
+    };
+    return { call: async (method: string) => results[method] } as unknown as Contract;
+  }
+}
+
+const STEADY_AMP = { amp_start: 200n, amp_end: 200n, start_time: 0n, end_time: 0n };
+
+describe('NostraDexHoldingsService', () => {
+  describe('LP holdings', () => {
+    it('gives the LP share of each reserve, rounded down', async () => {
+      const service = new TestNostraDexHoldingsService({
+        balance: 250n,
+        totalSupply: 1000n,
+        reserves: [4000n, 1003n],
+        amp: STEADY_AMP,
+      });
+
+      const response = await service.getHoldings({ address: ADDRESS, provider: {}, blockNumber: 1000000, includePositions: true });
+
+      expect(response.data).toMatchObject({ xSTRKAmount: '1000', STRKAmount: '250' });
+      expect(response.data?.positions?.[0]?.metadata).toMatchObject({ lpBalance: '250', lpTotalSupply: '1000' });
+    });
+
+    it('holds nothing while the pair has no supply', async () => {
+      const service = new TestNostraDexHoldingsService({
+        balance: 0n,
+        totalSupply: 0n,
+        reserves: [0n, 0n],
+        amp: STEADY_AMP,
+      });
+
+      const response = await service.getHoldings({ address: ADDRESS, provider: {}, blockNumber: 1000000 });
+
+      expect(response.data).toMatchObject({ xSTRKAmount: '0', STRKAmount: '0' });
+    });
+  });
+
+  describe('amplification', () => {
+    const ramp = { amp_start: 100n, amp_end: 200n, start_time: 1000n, end_time: 2000n };
+
+    async function getAmplificationAt(timestamp: number, amp: PairState['amp'] = ramp) {
+      const getBlock = jest.fn().mockResolvedValue({ timestamp });
+      const service = new TestNostraDexHoldingsService(
+        { balance: 0n, totalSupply: 1000n, reserves: [1n, 1n], amp },
+        { getBlock } as Partial<RpcProvider>
+      );
+      const { amplification } = await service.getPoolState(1000000);
+      return { amplification, getBlock };
+    }
+
+    it('interpolates linearly while the ramp is running', async () => {
+      const { amplification } = await getAmplificationAt(1250);
+
+      expect(amplification).toEqual({ current: '125', start: '100', end: '200', startTime: 1000, endTime: 2000 });
+    });
+
+    it('holds the start value before the ramp and the end value after it', async () => {
+      expect((await getAmplificationAt(900)).amplification.current).toBe('100');
+      expect((await getAmplificationAt(2000)).amplification.current).toBe('200');
+      expect((await getAmplificationAt(5000)).amplification.current).toBe('200');
+    });
+
+    it('does not read the block when the amplification is not ramping', async () => {
+      const { amplification, getBlock } = await getAmplificationAt(1250, STEADY_AMP);
+
+      expect(amplification.current).toBe('200');
+      expect(getBlock).not.toHaveBeenCalled();
+    });
+  });
+});
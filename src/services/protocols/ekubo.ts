@@ -1,36 +1,69 @@
 // Ekubo holdings service
-import { BlockIdentifier, Contract } from 'starknet';
+import { BlockIdentifier, num } from 'starknet';
 import { BaseHoldingsService } from '../holdings';
-import type { HoldingsRequest, HoldingsResponse, ProtocolHoldings, SDKOptions } from '../../types';
-import EkuboPositionAbi from '../../abis/ekubo.position.abi.json';
+import type {
+  EkuboOrder,
+  EkuboOrderRef,
+  EkuboPoolKey,
+  EkuboPosition,
+  EkuboSwapQuote,
+  Event,
+  HoldingsChangeEvent,
+  HoldingsRequest,
+  HoldingsResponse,
+  PositionDiscoveryMode,
+  ProtocolHoldings,
+  ProtocolMetadata,
+  ProtocolPosition,
+  SDKOptions,
+  TokenAmount,
+} from '../../types';
 import { ApolloClient, gql, NormalizedCacheObject } from '@apollo/client';
 import getApolloClient from '../../utils/apollo-client';
+import { decodeSigned, getAllEvents, getEventSelector, isSameAddress } from '../../utils';
 import { CONTRACTS } from '../../constants';
 
-// Ekubo configuration
+// Ekubo configuration, contracts are resolved from the deployment timeline
 const EKUBO_CONFIG = {
   mainnet: {
-    xSTRKAddress: '0x28d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0a',
-    positionAddress: '0x02e0af29598b407c8716b17f6d2795eca1b471413fa03fb145a5e33722184067',
-    deploymentBlock: 165388,
+    xSTRKAddress: CONTRACTS.mainnet.lst,
   },
   testnet: {
-    xSTRKAddress: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d',
-    positionAddress: '0x02e0af29598b407c8716b17f6d2795eca1b471413fa03fb145a5e33722184067',
-    deploymentBlock: 165388,
+    xSTRKAddress: CONTRACTS.testnet.lst,
   },
 };
 
-interface EkuboPosition {
+// Tick spacing of the limit orders extension pools
+const EKUBO_LIMIT_ORDER_TICK_SPACING = 128;
+
+// Position NFT, with its token id as (low, high) felts for calls and event keys
+interface EkuboNft {
+  id: string;
+  low: string;
+  high: string;
+}
+
+interface EkuboMintDetails {
   id: string;
-  pool_key: {
-    token0: string;
-    token1: string;
-  };
-  bounds: {
-    lower: number;
-    upper: number;
-  };
+  position: EkuboPosition | null;
+}
+
+// Positions and core reads, as decoded from calls
+interface TokenInfoResult {
+  amount0: bigint;
+  amount1: bigint;
+  fees0: bigint;
+  fees1: bigint;
+}
+
+interface PoolPrice {
+  sqrt_ratio: bigint;
+  tick: { mag: bigint; sign: boolean };
+}
+
+interface InitializedTick {
+  0: { mag: bigint; sign: boolean };
+  1: boolean;
 }
 
 const EKUBO_API_QUERY = gql`
@@ -48,6 +81,8 @@ const EKUBO_API_QUERY = gql`
       timestamp
       lower_bound
       upper_bound
+      token0
+      token1
       pool_fee
       pool_tick_spacing
       extension
@@ -58,6 +93,9 @@ const EKUBO_API_QUERY = gql`
 export class EkuboHoldingsService extends BaseHoldingsService {
   private config: typeof EKUBO_CONFIG.mainnet;
   private apolloClient: ApolloClient<NormalizedCacheObject>;
+  // NFT and limit orders extension addresses by positions contract
+  private nftAddresses = new Map<string, string>();
+  private limitOrdersAddresses = new Map<string, string>();
   constructor(config: SDKOptions) {
     super(config);
     this.config = EKUBO_CONFIG[config.config.network as keyof typeof EKUBO_CONFIG] || EKUBO_CONFIG.mainnet;
@@ -69,11 +107,16 @@ export class EkuboHoldingsService extends BaseHoldingsService {
       this.validateAddress(request.address);
 
       const { address, blockNumber } = request;
-      const holdings = await this.getEkuboHoldings(address, blockNumber);
+      const holdings = await this.getEkuboHoldings(
+        address,
+        blockNumber,
+        request.positionDiscovery ?? 'auto',
+        request.includeOrders ?? false
+      );
 
       return {
         success: true,
-        data: holdings,
+        data: this.finalizeHoldings(holdings, request.includePositions),
         protocol: 'ekubo',
         timestamp: Date.now(),
       };
@@ -81,105 +124,807 @@ export class EkuboHoldingsService extends BaseHoldingsService {
 
   private async getEkuboHoldings(
     address: string,
-    blockNumber?: BlockIdentifier
+    blockNumber: BlockIdentifier | undefined,
+    discovery: PositionDiscoveryMode,
+    includeOrders: boolean
   ): Promise<ProtocolHoldings> {
-    if (!this.isContractDeployed(blockNumber, this.config.deploymentBlock)) {
+    const positionsDeployment = this.getDeployment('ekubo.positions', blockNumber);
+    if (!positionsDeployment) {
       return this.createZeroHoldings();
     }
 
-    let xSTRKAmount = BigInt(0);
-    let STRKAmount = BigInt(0);
+    const positions: ProtocolPosition[] = [];
+    const tokens: TokenAmount[] = [];
 
-      // Fetch positions from Ekubo API
-      const blockInfo = await this.sdkConfig.provider.getBlock(blockNumber ?? "latest");
-      const resp = await this.apolloClient.query({
-        query: EKUBO_API_QUERY,
-        variables: {
-          userAddress: address.toLowerCase(),
-          showClosed: false, // Fetch both open and closed positions
-          toDateTime: new Date(blockInfo.timestamp * 1000).toISOString(),
-        },
+    const ekuboPositions = await this.discoverPositions(address, blockNumber, discovery);
+
+    const positionContract = this.getContract(positionsDeployment);
+
+    // Process each position
+    for (const position of ekuboPositions) {
+      const { poolKey, bounds } = position;
+      try {
+        const result = (await positionContract.call(
+          'get_token_info',
+          [
+            position.id,
+            {
+              token0: poolKey.token0,
+              token1: poolKey.token1,
+              fee: poolKey.fee,
+              tick_spacing: poolKey.tickSpacing,
+              extension: poolKey.extension,
+            },
+            {
+              lower: {
+                mag: Math.abs(bounds.lower),
+                sign: bounds.lower < 0 ? 1 : 0,
+              },
+              upper: {
+                mag: Math.abs(bounds.upper),
+                sign: bounds.upper < 0 ? 1 : 0,
+              },
+            },
+          ],
+          {
+            blockIdentifier: blockNumber ?? 'pending',
+          }
+        )) as TokenInfoResult;
+
+        const amount0 = BigInt(result.amount0.toString()) + BigInt(result.fees0.toString());
+        const amount1 = BigInt(result.amount1.toString()) + BigInt(result.fees1.toString());
+        const positionTokens = await Promise.all([
+          this.createTokenAmount(poolKey.token0, amount0),
+          this.createTokenAmount(poolKey.token1, amount1),
+        ]);
+        tokens.push(...positionTokens);
+
+        positions.push(
+          this.createPosition(
+            position.id,
+            'lp',
+            this.createTokenHoldings(positionTokens),
+            {
+              positionId: position.id,
+              token0: poolKey.token0,
+              token1: poolKey.token1,
+              fee: poolKey.fee,
+              tickSpacing: poolKey.tickSpacing,
+              extension: poolKey.extension,
+              lowerTick: bounds.lower,
+              upperTick: bounds.upper,
+              amount0: result.amount0.toString(),
+              amount1: result.amount1.toString(),
+              fees0: result.fees0.toString(),
+              fees1: result.fees1.toString(),
+              ...(position.referrer ? { referrer: position.referrer } : {}),
+            }
+          )
+        );
+      } catch (error: unknown) {
+        if (error instanceof Error && error.message.includes('NOT_INITIALIZED')) {
+          // Skip uninitialized positions
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    // Open TWAMM and limit orders trading xSTRK, found by scanning every position NFT of the user
+    const orders = (includeOrders ? await this.getOrders(address, blockNumber) : []).filter(
+      order =>
+        isSameAddress(order.sellToken, this.config.xSTRKAddress) ||
+        isSameAddress(order.buyToken, this.config.xSTRKAddress)
+    );
+    for (const order of orders) {
+      const orderTokens = await Promise.all([
+        this.createTokenAmount(order.sellToken, order.remainingSellAmount),
+        this.createTokenAmount(order.buyToken, order.purchasedAmount),
+      ]);
+      tokens.push(...orderTokens);
+
+      positions.push(
+        this.createPosition(`${order.type}:${order.id}`, 'order', this.createTokenHoldings(orderTokens), {
+          positionId: order.id,
+          orderType: order.type,
+          sellToken: order.sellToken,
+          buyToken: order.buyToken,
+          remainingSellAmount: order.remainingSellAmount,
+          purchasedAmount: order.purchasedAmount,
+          endTime: order.endTime,
+          ...(order.type === 'twamm' ? { saleRate: order.saleRate, startTime: order.startTime } : {}),
+          ...(order.type === 'limit' ? { tick: order.key.tick, executed: order.executed } : {}),
+        })
+      );
+    }
+
+    return {
+      ...this.createTokenHoldings(tokens),
+      positions,
+    };
+  }
+
+  /**
+   * Gets the xSTRK held by the core contract, i.e. the liquidity and orders of every xSTRK pool
+   */
+  override async getMetrics(blockNumber?: BlockIdentifier): Promise<ProtocolMetadata> {
+    this.validateProvider();
+    const core = this.getDeployment('ekubo.core', blockNumber);
+    if (!core) {
+      return this.createZeroMetrics();
+    }
+
+    const result = await this.provider.callContract(
+      {
+        contractAddress: this.config.xSTRKAddress,
+        entrypoint: 'balance_of',
+        calldata: [core.address],
+      },
+      blockNumber ?? 'pending'
+    );
+    // u256 balance as (low, high)
+    const totalAssets = (BigInt(result[0] ?? 0) + (BigInt(result[1] ?? 0) << 128n)).toString();
+
+    return {
+      totalAssets,
+      tokens: [await this.createTokenAmount(this.config.xSTRKAddress, totalAssets)],
+    };
+  }
+
+  /**
+   * Quotes the output of selling an exact amount of one pool token from the pool price and active
+   * liquidity. Ticks are not crossed: an amount that would leave the current range is capped at the
+   * next initialized tick and the quote is flagged as partial
+   */
+  async quoteExactIn(
+    poolKey: EkuboPoolKey,
+    tokenIn: string,
+    amountIn: string,
+    blockNumber?: BlockIdentifier
+  ): Promise<EkuboSwapQuote> {
+    this.validateProvider();
+    this.validateAddress(tokenIn);
+    if (BigInt(amountIn) <= BigInt(0)) {
+      throw new Error('Swap amount must be positive');
+    }
+
+    let firstTokenIn: boolean;
+    if (isSameAddress(tokenIn, poolKey.token0)) {
+      firstTokenIn = true;
+    } else if (isSameAddress(tokenIn, poolKey.token1)) {
+      firstTokenIn = false;
+    } else {
+      throw new Error(`Token ${tokenIn} is not part of the Ekubo pool`);
+    }
+
+    const core = this.requireDeployment('ekubo.core', blockNumber);
+    const contract = this.getContract(core);
+    const key = {
+      token0: poolKey.token0,
+      token1: poolKey.token1,
+      fee: poolKey.fee,
+      tick_spacing: poolKey.tickSpacing,
+      extension: poolKey.extension,
+    };
+    const options = { blockIdentifier: blockNumber ?? 'latest' };
+    const [price, liquidityResult] = await Promise.all([
+      contract.call('get_pool_price', [key], options) as Promise<PoolPrice>,
+      contract.call('get_pool_liquidity', [key], options),
+    ]);
+
+    const sqrtRatio = BigInt(price.sqrt_ratio.toString());
+    const liquidity = BigInt(liquidityResult.toString());
+    if (sqrtRatio === BigInt(0) || liquidity === BigInt(0)) {
+      throw new Error('Ekubo pool has no active liquidity');
+    }
+
+    // Selling token0 moves the price down to the previous initialized tick, selling token1 up to the next
+    const boundary = (await contract.call(
+      firstTokenIn ? 'prev_initialized_tick' : 'next_initialized_tick',
+      [key, price.tick, 0],
+      options
+    )) as InitializedTick;
+    const boundaryRatio = this.toSqrtRatio(this.toTick(boundary[0].mag.toString(), boundary[0].sign ? '1' : '0'));
+
+    // Sqrt ratios are sqrt(token1 / token0) in Q128, fees a Q128 fraction of the input
+    const q128 = BigInt(1) << BigInt(128);
+    const fee = BigInt(poolKey.fee);
+    const scale = BigInt(10 ** 18);
+    let amount = BigInt(amountIn);
+    let inAfterFee = amount - (amount * fee + q128 - BigInt(1)) / q128;
+
+    // Largest input after fees that keeps the price within the range
+    const maxInAfterFee = firstTokenIn
+      ? sqrtRatio > boundaryRatio
+        ? (liquidity * q128 * (sqrtRatio - boundaryRatio)) / (sqrtRatio * boundaryRatio)
+        : BigInt(0)
+      : boundaryRatio > sqrtRatio
+        ? (liquidity * (boundaryRatio - sqrtRatio)) / q128
+        : BigInt(0);
+    const partial = inAfterFee > maxInAfterFee;
+    if (partial) {
+      amount = (maxInAfterFee * q128) / (q128 - fee);
+      inAfterFee = amount - (amount * fee + q128 - BigInt(1)) / q128;
+      if (amount === BigInt(0)) {
+        throw new Error('Ekubo pool price is at the edge of its active range');
+      }
+    }
+
+    let amountOut: bigint;
+    let marginalPrice: bigint;
+    if (firstTokenIn) {
+      const next = (liquidity * sqrtRatio * q128) / (liquidity * q128 + inAfterFee * sqrtRatio);
+      amountOut = (liquidity * (sqrtRatio - next)) / q128;
+      marginalPrice = (scale * sqrtRatio * sqrtRatio * (q128 - fee)) / (q128 * q128 * q128);
+    } else {
+      const next = sqrtRatio + (inAfterFee * q128) / liquidity;
+      amountOut = (liquidity * q128 * (next - sqrtRatio)) / (sqrtRatio * next);
+      marginalPrice = (scale * q128 * (q128 - fee)) / (sqrtRatio * sqrtRatio);
+    }
+
+    return {
+      pool: core.address,
+      poolKey,
+      tokenIn: firstTokenIn ? poolKey.token0 : poolKey.token1,
+      tokenOut: firstTokenIn ? poolKey.token1 : poolKey.token0,
+      amountIn: amount.toString(),
+      amountOut: amountOut.toString(),
+      sqrtRatio: sqrtRatio.toString(),
+      liquidity: liquidity.toString(),
+      marginalPrice: marginalPrice.toString(),
+      effectivePrice: ((amountOut * scale) / amount).toString(),
+      partial,
+    };
+  }
+
+  /**
+   * Converts a tick to its sqrt ratio in Q128, sqrt(1.000001^tick), computed in Q192 for precision
+   */
+  private toSqrtRatio(tick: number): bigint {
+    const bits = BigInt(192);
+    const one = BigInt(1) << bits;
+    let base = this.sqrt((BigInt(1000001) << (bits * BigInt(2))) / BigInt(1000000));
+    let ratio = one;
+    for (let exponent = Math.abs(tick); exponent > 0; exponent >>= 1) {
+      if (exponent & 1) {
+        ratio = (ratio * base) >> bits;
+      }
+      base = (base * base) >> bits;
+    }
+    if (tick < 0) {
+      ratio = (one * one) / ratio;
+    }
+    return ratio >> (bits - BigInt(128));
+  }
+
+  private sqrt(value: bigint): bigint {
+    if (value < BigInt(2)) {
+      return value;
+    }
+    let x = value;
+    let y = (x + BigInt(1)) >> BigInt(1);
+    while (y < x) {
+      x = y;
+      y = (x + value / x) >> BigInt(1);
+    }
+    return x;
+  }
+
+  /**
+   * Gets the PositionUpdated events of a user's changed liquidity positions between two blocks. Core events
+   * are not keyed by owner, so every PositionUpdated of the range is scanned for the position ids
+   */
+  override async getChangeEvents(
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+    positionIds: string[]
+  ): Promise<HoldingsChangeEvent[]> {
+    this.validateProvider();
+    this.validateAddress(address);
+
+    // Orders are reported under typed ids and changed through the extensions instead
+    const ids = new Set(
+      positionIds.filter(id => !id.includes(':')).map(id => BigInt(id).toString())
+    );
+    if (ids.size === 0) {
+      return [];
+    }
+
+    const lockers = this.getDeploymentsInRange('ekubo.positions', fromBlock, toBlock);
+    const events = await Promise.all(
+      this.getDeploymentsInRange('ekubo.core', fromBlock, toBlock).map(core =>
+        getAllEvents(this.provider, {
+          address: core.address,
+          keys: [[getEventSelector('PositionUpdated')]],
+          fromBlock: Math.max(fromBlock, core.fromBlock),
+          toBlock: Math.min(toBlock, core.toBlock ?? toBlock),
+        })
+      )
+    );
+
+    // Data: locker, pool key (5), salt, bounds (2 x i129), liquidity delta (i129), delta (2 x i129)
+    return events
+      .flat()
+      .filter(
+        event =>
+          lockers.some(locker => isSameAddress(event.data[0] ?? '0x0', locker.address)) &&
+          ids.has(BigInt(event.data[6] ?? 0).toString())
+      )
+      .map(event => {
+        const signed = (offset: number) =>
+          decodeSigned(BigInt(event.data[offset] ?? 0), event.data[offset + 1]).toString();
+        return {
+          protocol: 'ekubo',
+          name: 'PositionUpdated',
+          contract: num.toHex(event.address),
+          transactionHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          positionId: BigInt(event.data[6] ?? 0).toString(),
+          values: {
+            token0: num.toHex(event.data[1] ?? 0),
+            token1: num.toHex(event.data[2] ?? 0),
+            lowerTick: this.toTick(event.data[7], event.data[8]).toString(),
+            upperTick: this.toTick(event.data[9], event.data[10]).toString(),
+            liquidityDelta: signed(11),
+            amount0Delta: signed(13),
+            amount1Delta: signed(15),
+          },
+        };
       });
-      const ekuboPositionsResp = resp;
+  }
+
+  /**
+   * Finds the xSTRK positions of a user with the requested discovery mode
+   */
+  private async discoverPositions(
+    address: string,
+    blockNumber: BlockIdentifier | undefined,
+    discovery: PositionDiscoveryMode
+  ): Promise<EkuboPosition[]> {
+    if (discovery === 'onchain') {
+      return this.discoverPositionsOnChain(address, blockNumber);
+    }
+    if (discovery === 'indexer') {
+      return this.discoverPositionsFromIndexer(address, blockNumber);
+    }
+
+    try {
+      return await this.discoverPositionsFromIndexer(address, blockNumber);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Ekubo indexer unavailable, discovering positions on-chain: ${message}`);
+      return this.discoverPositionsOnChain(address, blockNumber);
+    }
+  }
+
+  /**
+   * Gets the xSTRK positions of a user from the Endur GraphQL indexer
+   */
+  async discoverPositionsFromIndexer(
+    address: string,
+    blockNumber?: BlockIdentifier
+  ): Promise<EkuboPosition[]> {
+    // Fetch positions from Ekubo API
+    const blockInfo = await this.provider.getBlock(blockNumber ?? "latest");
+    const resp = await this.apolloClient.query({
+      query: EKUBO_API_QUERY,
+      variables: {
+        userAddress: address.toLowerCase(),
+        showClosed: false, // Fetch both open and closed positions
+        toDateTime: new Date(blockInfo.timestamp * 1000).toISOString(),
+      },
+    });
+    const ekuboPositionsResp = resp;
+    if (
+      !ekuboPositionsResp ||
+      !ekuboPositionsResp.data ||
+      !ekuboPositionsResp.data.getEkuboPositionsByUser
+    ) {
+      throw new Error("Failed to fetch Ekubo positions data");
+    }
+
+    const ekuboPositions: {
+      position_id: string;
+      timestamp: string;
+      lower_bound: number;
+      upper_bound: number;
+      token0: string;
+      token1: string;
+      pool_fee: string;
+      pool_tick_spacing: string;
+      extension: string;
+    }[] = ekuboPositionsResp.data.getEkuboPositionsByUser;
+
+    // The pool key and bounds come from the indexer; only the position state is read on-chain
+    const positions: EkuboPosition[] = [];
+    for (const position of ekuboPositions) {
+      if (!position.position_id) continue;
+      const poolKey = {
+        token0: num.toHex(position.token0),
+        token1: num.toHex(position.token1),
+        fee: BigInt(position.pool_fee).toString(),
+        tickSpacing: BigInt(position.pool_tick_spacing).toString(),
+        extension: num.toHex(position.extension),
+      };
       if (
-        !ekuboPositionsResp ||
-        !ekuboPositionsResp.data ||
-        !ekuboPositionsResp.data.getEkuboPositionsByUser
+        !isSameAddress(poolKey.token0, this.config.xSTRKAddress) &&
+        !isSameAddress(poolKey.token1, this.config.xSTRKAddress)
       ) {
-        throw new Error("Failed to fetch Ekubo positions data");
+        continue;
       }
 
-      const ekuboPositions: {
-        position_id: string;
-        timestamp: string;
-        lower_bound: number;
-        upper_bound: number;
-        pool_fee: string;
-        pool_tick_spacing: string;
-        extension: string;
-      }[] = ekuboPositionsResp.data.getEkuboPositionsByUser;
-
-      const positionContract = new Contract(
-        EkuboPositionAbi,
-        this.config.positionAddress,
-        this.provider
+      positions.push({
+        id: BigInt(position.position_id).toString(),
+        poolKey,
+        bounds: {
+          lower: position.lower_bound,
+          upper: position.upper_bound,
+        },
+      });
+    }
+
+    return positions;
+  }
+
+  /**
+   * Gets the xSTRK positions of a user from chain data only: position NFT
+   * transfers, current NFT ownership and the events of each position's mint transaction
+   */
+  async discoverPositionsOnChain(
+    address: string,
+    blockNumber?: BlockIdentifier
+  ): Promise<EkuboPosition[]> {
+    const minted = await this.getOwnedMintDetails(address, blockNumber);
+    return minted
+      .map(({ position }) => position)
+      .filter(
+        (position): position is EkuboPosition =>
+          position !== null &&
+          (isSameAddress(position.poolKey.token0, this.config.xSTRKAddress) ||
+            isSameAddress(position.poolKey.token1, this.config.xSTRKAddress))
       );
+  }
 
-      // Process each position
-      for (const position of ekuboPositions) {
-        if (!position.position_id) continue;
-        const poolKey = {
-          token0: this.config.xSTRKAddress,
-          token1: CONTRACTS.mainnet.strk,
-          fee: position.pool_fee,
-          tick_spacing: position.pool_tick_spacing,
-          extension: position.extension,
-        };
-        try {
-          const result: any = await positionContract.call(
-            'get_token_info',
-            [
-              position.position_id,
-              poolKey,
-              {
-                lower: {
-                  mag: Math.abs(position.lower_bound),
-                  sign: position.lower_bound < 0 ? 1 : 0,
-                },
-                upper: {
-                  mag: Math.abs(position.upper_bound),
-                  sign: position.upper_bound < 0 ? 1 : 0,
-                },
-              },
-            ],
-            {
-              blockIdentifier: blockNumber ?? 'pending',
-            }
-          );
-
-          if (this.config.xSTRKAddress === poolKey.token0) {
-            xSTRKAmount += BigInt(result.amount0.toString());
-            xSTRKAmount += BigInt(result.fees0.toString());
-            STRKAmount += BigInt(result.amount1.toString());
-            STRKAmount += BigInt(result.fees1.toString());
-          } else {
-            xSTRKAmount += BigInt(result.amount1.toString());
-            xSTRKAmount += BigInt(result.fees1.toString());
-            STRKAmount += BigInt(result.amount0.toString());
-            STRKAmount += BigInt(result.fees0.toString());
-          }
-        } catch (error: any) {
-          if (error.message.includes('NOT_INITIALIZED')) {
-            // Skip uninitialized positions
-            continue;
-          }
-          throw error;
-        }
+  /**
+   * Finds the TWAMM and limit orders held by the position NFTs of a user, from the order updates of
+   * both extensions since the oldest of the NFTs was minted
+   */
+  async discoverOrders(address: string, blockNumber?: BlockIdentifier): Promise<EkuboOrderRef[]> {
+    const nftAddress = await this.getNftAddress(blockNumber);
+    const nfts = await this.getOwnedNfts(nftAddress, address, blockNumber);
+    const mints = await Promise.all(nfts.map(nft => this.getMintEvent(nftAddress, nft, blockNumber)));
+    const mintBlocks = mints.flatMap(mint => (mint ? [mint.blockNumber] : []));
+    if (mintBlocks.length === 0) {
+      return [];
+    }
+
+    const ids = new Set(nfts.map(({ id }) => id));
+    const positionsAddress = this.requireDeployment('ekubo.positions', blockNumber).address;
+    const [twammAddress, limitOrdersAddress] = await Promise.all([
+      this.requireDeployment('ekubo.twamm', blockNumber).address,
+      this.getLimitOrdersAddress(blockNumber),
+    ]);
+    const query = {
+      keys: [[getEventSelector('OrderUpdated')]],
+      fromBlock: Math.min(...mintBlocks),
+      ...(blockNumber !== undefined ? { toBlock: blockNumber } : {}),
+      // OrderUpdated data: owner, salt, order key, sale rate or liquidity delta (i129)
+      filter: (event: Event) =>
+        isSameAddress(event.data[0] ?? '0x0', positionsAddress) && ids.has(BigInt(event.data[1] ?? 0).toString()),
+    };
+    const [twammUpdates, limitUpdates] = await Promise.all([
+      getAllEvents(this.provider, { ...query, address: twammAddress }),
+      getAllEvents(this.provider, { ...query, address: limitOrdersAddress }),
+    ]);
+
+    const orders = new Map<string, EkuboOrderRef>();
+    for (const { data } of twammUpdates) {
+      const [, salt = '0x0', sellToken = '0x0', buyToken = '0x0', fee = '0x0', startTime = '0x0', endTime = '0x0'] =
+        data;
+      const id = BigInt(salt).toString();
+      const key = {
+        sellToken: num.toHex(sellToken),
+        buyToken: num.toHex(buyToken),
+        fee: BigInt(fee).toString(),
+        startTime: Number(BigInt(startTime)),
+        endTime: Number(BigInt(endTime)),
+      };
+      orders.set(`${id}:twamm:${JSON.stringify(key)}`, { id, type: 'twamm', key });
+    }
+    for (const { data } of limitUpdates) {
+      const [, salt = '0x0', token0 = '0x0', token1 = '0x0', tickMag, tickSign] = data;
+      const id = BigInt(salt).toString();
+      const key = {
+        token0: num.toHex(token0),
+        token1: num.toHex(token1),
+        tick: this.toTick(tickMag, tickSign),
+      };
+      orders.set(`${id}:limit:${JSON.stringify(key)}`, { id, type: 'limit', key });
+    }
+    return Array.from(orders.values());
+  }
+
+  /**
+   * Gets the open TWAMM and limit orders of a user with their remaining and purchased amounts
+   */
+  async getOrders(address: string, blockNumber?: BlockIdentifier): Promise<EkuboOrder[]> {
+    this.validateProvider();
+    this.validateAddress(address);
+
+    const refs = await this.discoverOrders(address, blockNumber);
+    const twammRefs = refs.filter(
+      (ref): ref is Extract<EkuboOrderRef, { type: 'twamm' }> => ref.type === 'twamm'
+    );
+    const limitRefs = refs.filter(
+      (ref): ref is Extract<EkuboOrderRef, { type: 'limit' }> => ref.type === 'limit'
+    );
+    const blockIdentifier = blockNumber ?? 'pending';
+    const orders: EkuboOrder[] = [];
+
+    if (twammRefs.length > 0) {
+      // Each OrderInfo is (sale_rate, remaining_sell_amount, purchased_amount)
+      const result = await this.provider.callContract(
+        {
+          contractAddress: this.requireDeployment('ekubo.positions', blockNumber).address,
+          entrypoint: 'get_orders_info',
+          calldata: [
+            twammRefs.length,
+            ...twammRefs.flatMap(({ id, key }) => [
+              id,
+              key.sellToken,
+              key.buyToken,
+              key.fee,
+              key.startTime,
+              key.endTime,
+            ]),
+          ],
+        },
+        blockIdentifier
+      );
+      twammRefs.forEach(({ id, key }, index) => {
+        const [saleRate, remaining, purchased] = result.slice(1 + index * 3, 4 + index * 3);
+        orders.push({
+          id,
+          type: 'twamm',
+          key,
+          sellToken: key.sellToken,
+          buyToken: key.buyToken,
+          remainingSellAmount: BigInt(remaining ?? 0).toString(),
+          purchasedAmount: BigInt(purchased ?? 0).toString(),
+          saleRate: BigInt(saleRate ?? 0).toString(),
+          startTime: key.startTime,
+          endTime: key.endTime,
+        });
+      });
+    }
+
+    if (limitRefs.length > 0) {
+      // Each GetOrderInfoResult is (ticks crossed snapshot, liquidity, executed, amount0, amount1)
+      const result = await this.provider.callContract(
+        {
+          contractAddress: this.requireDeployment('ekubo.positions', blockNumber).address,
+          entrypoint: 'get_limit_orders_info',
+          calldata: [
+            limitRefs.length,
+            ...limitRefs.flatMap(({ id, key }) => [
+              id,
+              key.token0,
+              key.token1,
+              Math.abs(key.tick),
+              key.tick < 0 ? 1 : 0,
+            ]),
+          ],
+        },
+        blockIdentifier
+      );
+      limitRefs.forEach(({ id, key }, index) => {
+        const [, , executed, amount0, amount1] = result.slice(1 + index * 5, 6 + index * 5);
+        // Orders on odd multiples of the limit order tick spacing sell token1
+        const sellsToken1 = Math.abs(key.tick) % (2 * EKUBO_LIMIT_ORDER_TICK_SPACING) !== 0;
+        orders.push({
+          id,
+          type: 'limit',
+          key,
+          sellToken: sellsToken1 ? key.token1 : key.token0,
+          buyToken: sellsToken1 ? key.token0 : key.token1,
+          remainingSellAmount: BigInt((sellsToken1 ? amount1 : amount0) ?? 0).toString(),
+          purchasedAmount: BigInt((sellsToken1 ? amount0 : amount1) ?? 0).toString(),
+          executed: BigInt(executed ?? 0) !== BigInt(0),
+          endTime: null,
+        });
+      });
+    }
+
+    return orders;
+  }
+
+  /**
+   * Reads the mint transaction of every position NFT currently owned by a user
+   */
+  private async getOwnedMintDetails(
+    address: string,
+    blockNumber?: BlockIdentifier
+  ): Promise<EkuboMintDetails[]> {
+    const nftAddress = await this.getNftAddress(blockNumber);
+    const nfts = await this.getOwnedNfts(nftAddress, address, blockNumber);
+    const minted: EkuboMintDetails[] = [];
+    for (const nft of nfts) {
+      minted.push(await this.getMintDetails(nftAddress, nft, blockNumber));
+    }
+    return minted;
+  }
+
+  /**
+   * Gets the position NFTs a user has received and still owns
+   */
+  private async getOwnedNfts(
+    nftAddress: string,
+    address: string,
+    blockNumber?: BlockIdentifier
+  ): Promise<EkuboNft[]> {
+    const blockIdentifier = blockNumber ?? 'pending';
+
+    // Every position NFT ever received by the user
+    const received = await getAllEvents(this.provider, {
+      address: nftAddress,
+      keys: [[getEventSelector('Transfer')], [], [num.toHex(address)]],
+      fromBlock: this.requireDeployment('ekubo.positions', blockNumber).fromBlock,
+      ...(blockNumber !== undefined ? { toBlock: blockNumber } : {}),
+    });
+    const candidates = new Map<string, EkuboNft>();
+    for (const event of received) {
+      const [, , , low, high] = event.keys;
+      if (low === undefined || high === undefined) continue;
+      const id = BigInt(low).toString();
+      candidates.set(id, { id, low, high });
+    }
+
+    const owned: EkuboNft[] = [];
+    for (const nft of candidates.values()) {
+      // Skip positions that were transferred away or burned since
+      let owner: string[];
+      try {
+        owner = await this.provider.callContract(
+          { contractAddress: nftAddress, entrypoint: 'owner_of', calldata: [nft.low, nft.high] },
+          blockIdentifier
+        );
+      } catch {
+        continue;
+      }
+      if (!owner[0] || !isSameAddress(owner[0], address)) continue;
+      owned.push(nft);
+    }
+
+    return owned;
+  }
+
+  /**
+   * Gets the Transfer event that minted a position NFT
+   */
+  private async getMintEvent(
+    nftAddress: string,
+    nft: EkuboNft,
+    blockNumber?: BlockIdentifier
+  ): Promise<Event | undefined> {
+    const mints = await getAllEvents(this.provider, {
+      address: nftAddress,
+      keys: [[getEventSelector('Transfer')], ['0x0'], [], [nft.low], [nft.high]],
+      fromBlock: this.requireDeployment('ekubo.positions', blockNumber).fromBlock,
+      ...(blockNumber !== undefined ? { toBlock: blockNumber } : {}),
+    });
+    return mints[0];
+  }
+
+  /**
+   * Reads the pool key and bounds of a position NFT from the events of its mint transaction;
+   * positions minted without liquidity have no pool in it and are returned without one
+   */
+  private async getMintDetails(
+    nftAddress: string,
+    nft: EkuboNft,
+    blockNumber?: BlockIdentifier
+  ): Promise<EkuboMintDetails> {
+    const { id } = nft;
+    const mint = await this.getMintEvent(nftAddress, nft, blockNumber);
+    if (!mint) {
+      return { id, position: null };
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(mint.transactionHash);
+    // The mint emitted an event, so its transaction succeeded
+    const receiptEvents = receipt.isSuccess() ? receipt.value.events : [];
+    const updatedSelector = getEventSelector('PositionUpdated');
+    const mintedSelector = getEventSelector('PositionMintedWithReferrer');
+    const positionsAddress = this.requireDeployment('ekubo.positions', mint.blockNumber).address;
+    const coreAddress = this.requireDeployment('ekubo.core', mint.blockNumber).address;
+    let referrer: string | undefined;
+    let position: EkuboPosition | null = null;
+
+    for (const event of receiptEvents) {
+      const selector = event.keys[0];
+      if (!selector) continue;
+
+      if (
+        isSameAddress(event.from_address, positionsAddress) &&
+        isSameAddress(selector, mintedSelector) &&
+        BigInt(event.data[0] ?? 0).toString() === id
+      ) {
+        referrer = event.data[1];
       }
 
+      if (
+        !position &&
+        isSameAddress(event.from_address, coreAddress) &&
+        isSameAddress(selector, updatedSelector) &&
+        this.isPositionUpdate(event.data, positionsAddress, id)
+      ) {
+        position = this.toPosition(id, event.data);
+      }
+    }
+
+    if (position && referrer && BigInt(referrer) !== BigInt(0)) {
+      position.referrer = num.toHex(referrer);
+    }
+    return { id, position };
+  }
+
+  // PositionUpdated data: locker, pool key (5), salt, bounds (2 x i129), liquidity delta, delta
+  private isPositionUpdate(data: string[], positionsAddress: string, id: string): boolean {
+    return isSameAddress(data[0] ?? '0x0', positionsAddress) && BigInt(data[6] ?? 0).toString() === id;
+  }
+
+  private toPosition(id: string, data: string[]): EkuboPosition {
+    const [, token0, token1, fee, tickSpacing, extension] = data;
     return {
-      xSTRKAmount: xSTRKAmount.toString(),
-      STRKAmount: STRKAmount.toString(),
+      id,
+      poolKey: {
+        token0: num.toHex(token0 ?? 0),
+        token1: num.toHex(token1 ?? 0),
+        fee: BigInt(fee ?? 0).toString(),
+        tickSpacing: BigInt(tickSpacing ?? 0).toString(),
+        extension: num.toHex(extension ?? 0),
+      },
+      bounds: {
+        lower: this.toTick(data[7], data[8]),
+        upper: this.toTick(data[9], data[10]),
+      },
     };
   }
-} 
\ No newline at end of file
+
+  private async getLimitOrdersAddress(blockNumber?: BlockIdentifier): Promise<string> {
+    const positions = this.requireDeployment('ekubo.positions', blockNumber).address;
+    let address = this.limitOrdersAddresses.get(positions);
+    if (!address) {
+      const result = await this.provider.callContract({
+        contractAddress: positions,
+        entrypoint: 'get_limit_orders_address',
+      });
+      address = num.toHex(result[0] ?? 0);
+      this.limitOrdersAddresses.set(positions, address);
+    }
+    return address;
+  }
+
+  private async getNftAddress(blockNumber?: BlockIdentifier): Promise<string> {
+    const positions = this.requireDeployment('ekubo.positions', blockNumber).address;
+    let address = this.nftAddresses.get(positions);
+    if (!address) {
+      const result = await this.provider.callContract({
+        contractAddress: positions,
+        entrypoint: 'get_nft_address',
+      });
+      if (!result[0]) {
+        throw new Error('Failed to fetch Ekubo positions NFT address');
+      }
+      address = num.toHex(result[0]);
+      this.nftAddresses.set(positions, address);
+    }
+    return address;
+  }
+
+  private toTick(mag: string | undefined, sign: string | undefined): number {
+    const value = Number(BigInt(mag ?? 0));
+    return BigInt(sign ?? 0) === BigInt(0) ? value : -value;
+  }
+}
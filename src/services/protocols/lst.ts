@@ -1,39 +1,16 @@
 // LST holdings service
-import { BlockIdentifier, Contract, RpcProvider } from 'starknet';
+import { BlockIdentifier, num } from 'starknet';
 import { BaseHoldingsService } from '../holdings';
-import type { HoldingsRequest, HoldingsResponse, ProtocolHoldings, SDKOptions } from '../../types';
-import ERC4626_ABI from '../../abis/erc4626.abi.json';
-import { CONTRACTS } from '../../constants';
-
-// LST contract addresses and deployment blocks
-const LST_CONFIG: Record<'mainnet' | 'testnet', {
-  xSTRK: {
-    address: string;
-    deploymentBlock: number;
-  }
-}> = {
-  mainnet: {
-    xSTRK: {
-      address: CONTRACTS.mainnet.lst,
-      deploymentBlock: 929092,
-    },
-  },
-  testnet: {
-    xSTRK: {
-      address: CONTRACTS.testnet.lst,
-      deploymentBlock: 0,
-    },
-  },
-};
+import type {
+  HoldingsChangeEvent,
+  HoldingsRequest,
+  HoldingsResponse,
+  ProtocolHoldings,
+  ProtocolMetadata,
+} from '../../types';
+import { DEFAULT_APY_LOOKBACK_BLOCKS, SECONDS_PER_YEAR } from '../../constants';
 
 export class LSTHoldingsService extends BaseHoldingsService {
-  private config: typeof LST_CONFIG.mainnet;
-
-  constructor(config: SDKOptions) {
-    super(config);
-    this.config = LST_CONFIG[config.config.network as keyof typeof LST_CONFIG] || LST_CONFIG.mainnet;
-  }
-
   async getHoldings(request: HoldingsRequest): Promise<HoldingsResponse> {
       this.validateProvider();
       this.validateAddress(request.address);
@@ -43,7 +20,7 @@ export class LSTHoldingsService extends BaseHoldingsService {
 
       return {
         success: true,
-        data: holdings,
+        data: this.finalizeHoldings(holdings, request.includePositions),
         protocol: 'lst',
         timestamp: Date.now(),
       };
@@ -54,28 +31,39 @@ export class LSTHoldingsService extends BaseHoldingsService {
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
     // Check if contract is deployed
-    if (!this.isContractDeployed(blockNumber, this.config.xSTRK.deploymentBlock)) {
+    const deployment = this.getDeployment('lst.xSTRK', blockNumber);
+    if (!deployment) {
       return this.createZeroHoldings();
     }
 
-    const lstContract = new Contract(ERC4626_ABI, this.config.xSTRK.address, this.provider);
+    const lstContract = this.getContract(deployment);
     
     const balance = await lstContract.call('balance_of', [address], {
       blockIdentifier: blockNumber ?? 'pending',
     });
 
-    return {
+    const holdings = {
       xSTRKAmount: balance.toString(),
       STRKAmount: '0',
     };
+
+    return {
+      ...holdings,
+      positions: [
+        this.createPosition(deployment.address, 'lst', holdings, {
+          contract: deployment.address,
+        }),
+      ],
+    };
   }
 
   async getTotalAssets(blockNumber?: BlockIdentifier): Promise<string> {
-    if (!this.isContractDeployed(blockNumber, this.config.xSTRK.deploymentBlock)) {
+    const deployment = this.getDeployment('lst.xSTRK', blockNumber);
+    if (!deployment) {
       return '0';
     }
 
-    const lstContract = new Contract(ERC4626_ABI, this.config.xSTRK.address, this.provider);
+    const lstContract = this.getContract(deployment);
     
     const totalAssets = await lstContract.call('total_assets', [], {
       blockIdentifier: blockNumber ?? 'pending',
@@ -85,11 +73,12 @@ export class LSTHoldingsService extends BaseHoldingsService {
   }
 
   async getTotalSupply(blockNumber?: BlockIdentifier): Promise<string> {
-    if (!this.isContractDeployed(blockNumber, this.config.xSTRK.deploymentBlock)) {
+    const deployment = this.getDeployment('lst.xSTRK', blockNumber);
+    if (!deployment) {
       return '0';
     }
 
-    const lstContract = new Contract(ERC4626_ABI, this.config.xSTRK.address, this.provider);
+    const lstContract = this.getContract(deployment);
     
     const totalSupply = await lstContract.call('total_supply', [], {
       blockIdentifier: blockNumber ?? 'pending',
@@ -111,11 +100,12 @@ export class LSTHoldingsService extends BaseHoldingsService {
   }
 
   async convertXSTRKToSTRK(xSTRKAmount: string, blockNumber?: BlockIdentifier): Promise<string> {
-    if (!this.isContractDeployed(blockNumber, this.config.xSTRK.deploymentBlock)) {
+    const deployment = this.getDeployment('lst.xSTRK', blockNumber);
+    if (!deployment) {
       return '0';
     }
 
-    const lstContract = new Contract(ERC4626_ABI, this.config.xSTRK.address, this.provider);
+    const lstContract = this.getContract(deployment);
     
     const strkAmount = await lstContract.call('convert_to_assets', [xSTRKAmount], {
       blockIdentifier: blockNumber ?? 'pending',
@@ -123,4 +113,88 @@ export class LSTHoldingsService extends BaseHoldingsService {
 
     return strkAmount.toString();
   }
-} 
\ No newline at end of file
+
+  /**
+   * Gets xSTRK supply, staked STRK, exchange rate, staking APY and rewards fee
+   */
+  override async getMetrics(blockNumber?: BlockIdentifier): Promise<ProtocolMetadata> {
+    this.validateProvider();
+    const deployment = this.getDeployment('lst.xSTRK', blockNumber);
+    if (!deployment) {
+      return this.createZeroMetrics();
+    }
+
+    const lstContract = this.getContract(deployment);
+    const options = { blockIdentifier: blockNumber ?? 'pending' };
+    const [totalSupply, totalAssets, asset, config, apy] = await Promise.all([
+      this.getTotalSupply(blockNumber),
+      this.getTotalAssets(blockNumber),
+      lstContract.call('asset', [], options) as Promise<bigint>,
+      lstContract.call('get_config', [], options) as Promise<{ rewards_fee_bps: bigint }>,
+      this.getApy(blockNumber),
+    ]);
+
+    return {
+      totalSupply,
+      totalAssets,
+      exchangeRate: BigInt(totalSupply) === 0n
+        ? '0'
+        : (BigInt(totalAssets) * BigInt(10 ** 18) / BigInt(totalSupply)).toString(),
+      ...(apy !== undefined ? { apy } : {}),
+      fees: config.rewards_fee_bps.toString(),
+      tokens: [await this.createTokenAmount(num.toHex(asset), totalAssets)],
+    };
+  }
+
+  /**
+   * Gets the xSTRK deposits, withdrawals and transfers of a user between two blocks
+   */
+  override async getChangeEvents(
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<HoldingsChangeEvent[]> {
+    this.validateProvider();
+    this.validateAddress(address);
+
+    const events = await Promise.all(
+      this.getDeploymentsInRange('lst.xSTRK', fromBlock, toBlock).map(deployment =>
+        this.getVaultEvents('lst', deployment, address, fromBlock, toBlock)
+      )
+    );
+    return events.flat();
+  }
+
+  /**
+   * Gets the staking APY from the exchange rate growth over the blocks before a block
+   */
+  async getApy(
+    blockNumber?: BlockIdentifier,
+    lookbackBlocks: number = DEFAULT_APY_LOOKBACK_BLOCKS
+  ): Promise<number | undefined> {
+    const toBlock = typeof blockNumber === 'number' ? blockNumber : await this.provider.getBlockNumber();
+    const firstBlock = this.deployments.getFirstBlock('lst.xSTRK', this.sdkConfig.config.network);
+    if (firstBlock === undefined) {
+      return undefined;
+    }
+
+    const fromBlock = Math.max(firstBlock, toBlock - lookbackBlocks);
+    if (fromBlock >= toBlock) {
+      return undefined;
+    }
+
+    const [fromRate, toRate, from, to] = await Promise.all([
+      this.getExchangeRate(fromBlock),
+      this.getExchangeRate(toBlock),
+      this.provider.getBlock(fromBlock),
+      this.provider.getBlock(toBlock),
+    ]);
+    const elapsed = Number(to.timestamp) - Number(from.timestamp);
+    if (elapsed <= 0 || BigInt(fromRate) === 0n) {
+      return undefined;
+    }
+
+    const growth = Number(BigInt(toRate) * BigInt(10 ** 18) / BigInt(fromRate)) / 10 ** 18;
+    return Math.pow(growth, SECONDS_PER_YEAR / elapsed) - 1;
+  }
+}
@@ -1,38 +1,32 @@
 // Nostra holdings service
-import { BlockIdentifier, Contract } from 'starknet';
+import { BlockIdentifier, num } from 'starknet';
 import { BaseHoldingsService } from '../holdings';
-import type { HoldingsRequest, HoldingsResponse, ProtocolHoldings, SDKOptions } from '../../types';
-import ERC4626_ABI from '../../abis/erc4626.abi.json';
-import LP_TOKEN_ABI from '../../abis/nostra.lp.abi.json';
-
-// Nostra configuration
-const NOSTRA_CONFIG = {
-  mainnet: {
-    contracts: {
-      lpToken: {
-        address: '0x00205fd8586f6be6c16f4aa65cc1034ecff96d96481878e55f629cd0cb83e05f',
-        deploymentBlock: 940755,
-      },
-    },
-  },
-  testnet: {
-    contracts: {
-      lpToken: {
-        address: '0x00205fd8586f6be6c16f4aa65cc1034ecff96d96481878e55f629cd0cb83e05f',
-        deploymentBlock: 940755,
-      },
-    },
-  },
-};
+import type {
+  HoldingsRequest,
+  HoldingsResponse,
+  NostraAmplification,
+  NostraPoolState,
+  NostraSwapQuote,
+  ProtocolHoldings,
+  ProtocolMetadata,
+} from '../../types';
+import { isSameAddress } from '../../utils';
+import { CONTRACTS } from '../../constants';
 
-export class NostraDexHoldingsService extends BaseHoldingsService {
-  private config: typeof NOSTRA_CONFIG.mainnet;
+// Pair reads, as decoded from calls
+interface PairReserves {
+  0: bigint;
+  1: bigint;
+}
 
-  constructor(config: SDKOptions) {
-    super(config);
-    this.config = NOSTRA_CONFIG[config.config.network as keyof typeof NOSTRA_CONFIG] || NOSTRA_CONFIG.mainnet;
-  }
+interface AmplificationData {
+  amp_start: bigint;
+  amp_end: bigint;
+  start_time: bigint;
+  end_time: bigint;
+}
 
+export class NostraDexHoldingsService extends BaseHoldingsService {
   async getHoldings(request: HoldingsRequest): Promise<HoldingsResponse> {
       this.validateProvider();
       this.validateAddress(request.address);
@@ -42,7 +36,7 @@ export class NostraDexHoldingsService extends BaseHoldingsService {
 
       return {
         success: true,
-        data: holdings,
+        data: this.finalizeHoldings(holdings, request.includePositions),
         protocol: 'nostra',
         timestamp: Date.now(),
       };
@@ -63,6 +57,7 @@ export class NostraDexHoldingsService extends BaseHoldingsService {
     return {
       xSTRKAmount: xSTRKAmount.toString(),
       STRKAmount: STRKAmount.toString(),
+      positions: lpHoldings.positions ?? [],
     };
   }
 
@@ -70,13 +65,12 @@ export class NostraDexHoldingsService extends BaseHoldingsService {
     address: string,
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
-    const lpConfig = this.config.contracts.lpToken;
-    
-    if (!this.isContractDeployed(blockNumber, lpConfig.deploymentBlock)) {
+    const deployment = this.getDeployment('nostra.xSTRKSTRKPair', blockNumber);
+    if (!deployment) {
       return this.createZeroHoldings();
     }
 
-    const contract = new Contract(LP_TOKEN_ABI, lpConfig.address, this.provider);
+    const contract = this.getContract(deployment);
     
     const balance = await contract.call('balance_of', [address], {
       blockIdentifier: blockNumber ?? 'latest',
@@ -86,32 +80,193 @@ export class NostraDexHoldingsService extends BaseHoldingsService {
       blockIdentifier: blockNumber ?? 'latest',
     });
 
-    const reserves = await contract.call('get_reserves', [], {
+    const reserves = (await contract.call('get_reserves', [], {
       blockIdentifier: blockNumber ?? 'latest',
-    });
+    })) as PairReserves;
 
     const balanceStr = balance.toString();
     const totalSupplyStr = totalSupply.toString();
-    const reserve0Str = (reserves as any)[0].toString();
-    const reserve1Str = (reserves as any)[1].toString();
+    const lpBalance = BigInt(balanceStr);
+    const lpTotalSupply = BigInt(totalSupplyStr);
+    const reserve0 = BigInt(reserves[0].toString());
+    const reserve1 = BigInt(reserves[1].toString());
+
+    // Pro-rata share of each reserve, rounded down like the pair does on burn
+    const xSTRKTokenBal = lpTotalSupply === BigInt(0) ? BigInt(0) : (lpBalance * reserve0) / lpTotalSupply;
+    const STRKTokenBal = lpTotalSupply === BigInt(0) ? BigInt(0) : (lpBalance * reserve1) / lpTotalSupply;
+
+    const holdings = {
+      xSTRKAmount: xSTRKTokenBal.toString(),
+      STRKAmount: STRKTokenBal.toString(),
+    };
+
+    return {
+      ...holdings,
+      positions: [
+        this.createPosition(deployment.address, 'lp', holdings, {
+          contract: deployment.address,
+          lpBalance: balanceStr,
+          lpTotalSupply: totalSupplyStr,
+        }),
+      ],
+    };
+  }
 
-    // Calculate proportional amounts
-    const balanceNum = Number(balanceStr);
-    const totalSupplyNum = Number(totalSupplyStr);
-    const reserve0Num = Number(reserve0Str);
-    const reserve1Num = Number(reserve1Str);
+  /**
+   * Gets reserves, supply, fee and amplification of the xSTRK/STRK stable pair
+   */
+  async getPoolState(blockNumber?: BlockIdentifier): Promise<NostraPoolState> {
+    this.validateProvider();
+    const deployment = this.requireDeployment('nostra.xSTRKSTRKPair', blockNumber);
+    const contract = this.getContract(deployment);
+    const options = { blockIdentifier: blockNumber ?? 'latest' };
 
-    const xSTRKTokenBal = totalSupplyNum === 0 
-      ? 0 
-      : (balanceNum / totalSupplyNum) * reserve0Num;
+    const [token0, token1, reserves, totalSupply, swapFee, ampData] = await Promise.all([
+      contract.call('token_0', [], options) as Promise<bigint>,
+      contract.call('token_1', [], options) as Promise<bigint>,
+      contract.call('get_reserves', [], options) as Promise<PairReserves>,
+      contract.call('total_supply', [], options),
+      contract.call('swap_fee', [], options),
+      contract.call('amp_data', [], options) as Promise<AmplificationData>,
+    ]);
+
+    return {
+      address: deployment.address,
+      token0: num.toHex(token0),
+      token1: num.toHex(token1),
+      reserve0: reserves[0].toString(),
+      reserve1: reserves[1].toString(),
+      totalSupply: totalSupply.toString(),
+      swapFee: swapFee.toString(),
+      amplification: await this.getAmplification(ampData, blockNumber),
+    };
+  }
+
+  /**
+   * Gets the xSTRK reserve, LP supply and swap fee of the xSTRK/STRK stable pair
+   */
+  override async getMetrics(blockNumber?: BlockIdentifier): Promise<ProtocolMetadata> {
+    if (!this.getDeployment('nostra.xSTRKSTRKPair', blockNumber)) {
+      return this.createZeroMetrics();
+    }
+
+    const pool = await this.getPoolState(blockNumber);
+    const xSTRK = CONTRACTS[this.sdkConfig.config.network].lst;
+    const totalAssets = isSameAddress(pool.token0, xSTRK) ? pool.reserve0 : pool.reserve1;
+
+    return {
+      totalSupply: pool.totalSupply,
+      totalAssets,
+      fees: pool.swapFee,
+      tokens: await Promise.all([
+        this.createTokenAmount(pool.token0, pool.reserve0),
+        this.createTokenAmount(pool.token1, pool.reserve1),
+      ]),
+    };
+  }
 
-    const STRKTokenBal = totalSupplyNum === 0 
-      ? 0 
-      : (balanceNum / totalSupplyNum) * reserve1Num;
+  /**
+   * Quotes the output of selling an exact amount of one pair token
+   */
+  async quoteExactIn(
+    tokenIn: string,
+    amountIn: string,
+    blockNumber?: BlockIdentifier
+  ): Promise<NostraSwapQuote> {
+    return this.quote(tokenIn, amountIn, 'out_given_in', blockNumber);
+  }
+
+  /**
+   * Quotes the input needed to buy an exact amount of the other pair token
+   */
+  async quoteExactOut(
+    tokenIn: string,
+    amountOut: string,
+    blockNumber?: BlockIdentifier
+  ): Promise<NostraSwapQuote> {
+    return this.quote(tokenIn, amountOut, 'in_given_out', blockNumber);
+  }
+
+  private async quote(
+    tokenIn: string,
+    amount: string,
+    method: 'out_given_in' | 'in_given_out',
+    blockNumber?: BlockIdentifier
+  ): Promise<NostraSwapQuote> {
+    this.validateProvider();
+    this.validateAddress(tokenIn);
+    if (BigInt(amount) <= BigInt(0)) {
+      throw new Error('Swap amount must be positive');
+    }
+
+    const deployment = this.getDeployment('nostra.xSTRKSTRKPair', blockNumber);
+    if (!deployment) {
+      throw new Error('Nostra pair is not deployed at this block');
+    }
+
+    const contract = this.getContract(deployment);
+    const options = { blockIdentifier: blockNumber ?? 'latest' };
+    const [token0, token1, reserves] = await Promise.all([
+      contract.call('token_0', [], options) as Promise<bigint>,
+      contract.call('token_1', [], options) as Promise<bigint>,
+      contract.call('get_reserves', [], options) as Promise<PairReserves>,
+    ]);
+
+    let firstTokenIn: boolean;
+    if (isSameAddress(tokenIn, num.toHex(token0))) {
+      firstTokenIn = true;
+    } else if (isSameAddress(tokenIn, num.toHex(token1))) {
+      firstTokenIn = false;
+    } else {
+      throw new Error(`Token ${tokenIn} is not part of the Nostra pair`);
+    }
+
+    const result = await contract.call(method, [amount, firstTokenIn], options);
+    const amountIn = method === 'out_given_in' ? BigInt(amount) : BigInt(result.toString());
+    const amountOut = method === 'out_given_in' ? BigInt(result.toString()) : BigInt(amount);
+
+    return {
+      pool: deployment.address,
+      tokenIn: num.toHex(firstTokenIn ? token0 : token1),
+      tokenOut: num.toHex(firstTokenIn ? token1 : token0),
+      amountIn: amountIn.toString(),
+      amountOut: amountOut.toString(),
+      reserveIn: (firstTokenIn ? reserves[0] : reserves[1]).toString(),
+      reserveOut: (firstTokenIn ? reserves[1] : reserves[0]).toString(),
+      effectivePrice:
+        amountIn === BigInt(0) ? '0' : ((amountOut * BigInt(10 ** 18)) / amountIn).toString(),
+    };
+  }
+
+  /**
+   * Interpolates the amplification of a ramping pair at the block timestamp
+   */
+  private async getAmplification(
+    ampData: AmplificationData,
+    blockNumber?: BlockIdentifier
+  ): Promise<NostraAmplification> {
+    const start = BigInt(ampData.amp_start.toString());
+    const end = BigInt(ampData.amp_end.toString());
+    const startTime = BigInt(ampData.start_time.toString());
+    const endTime = BigInt(ampData.end_time.toString());
+
+    let current = end;
+    if (start !== end) {
+      const block = await this.provider.getBlock(blockNumber ?? 'latest');
+      const now = BigInt(block.timestamp);
+      if (now <= startTime) {
+        current = start;
+      } else if (now < endTime) {
+        current = start + ((end - start) * (now - startTime)) / (endTime - startTime);
+      }
+    }
 
     return {
-      xSTRKAmount: BigInt(Math.floor(xSTRKTokenBal)).toString(),
-      STRKAmount: BigInt(Math.floor(STRKTokenBal)).toString(),
+      current: current.toString(),
+      start: start.toString(),
+      end: end.toString(),
+      startTime: Number(startTime),
+      endTime: Number(endTime),
     };
   }
-} 
\ No newline at end of file
+}
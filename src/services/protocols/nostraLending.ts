@@ -1,70 +1,30 @@
 // Nostra holdings service
-import { BlockIdentifier, Contract } from 'starknet';
+import { BlockIdentifier } from 'starknet';
 import { BaseHoldingsService } from '../holdings';
-import type { HoldingsRequest, HoldingsResponse, ProtocolHoldings, SDKOptions } from '../../types';
-import ERC4626_ABI from '../../abis/erc4626.abi.json';
-import LP_TOKEN_ABI from '../../abis/nostra.lp.abi.json';
-
-// Nostra configuration
-const NOSTRA_CONFIG = {
-  mainnet: {
-    contracts: {
-      nXSTRK: {
-        address: '0x06878fd475d5cea090934d690ecbe4ad78503124e4f80380a2e45eb417aafb9c',
-        deploymentBlock: 968482,
-      },
-      nXSTRKC: {
-        address: '0x01b8d8e31f9dd1bde7dc878dd871225504837c78c40ff01cbf03a255e2154bf0',
-        deploymentBlock: 968483,
-      },
-      iXSTRK: {
-        address: '0x04d1125a716f547a0b69413c0098e811da3b799d173429c95da4290a00c139f7',
-        deploymentBlock: 968483,
-      },
-      iXSTRKC: {
-        address: '0x0257afe480da9255a026127cd3a295a580ef316b297a69be22b89729ae8c1d2a',
-        deploymentBlock: 968484,
-      },
-      dXSTRK: {
-        address: '0x0424638c9060d08b4820aabbb28347fc7234e2b7aadab58ad0f101e2412ea42d',
-        deploymentBlock: 968481,
-      },
-    },
-  },
-  testnet: {
-    contracts: {
-      nXSTRK: {
-        address: '0x06878fd475d5cea090934d690ecbe4ad78503124e4f80380a2e45eb417aafb9c',
-        deploymentBlock: 968482,
-      },
-      nXSTRKC: {
-        address: '0x01b8d8e31f9dd1bde7dc878dd871225504837c78c40ff01cbf03a255e2154bf0',
-        deploymentBlock: 968483,
-      },
-      iXSTRK: {
-        address: '0x04d1125a716f547a0b69413c0098e811da3b799d173429c95da4290a00c139f7',
-        deploymentBlock: 968483,
-      },
-      iXSTRKC: {
-        address: '0x0257afe480da9255a026127cd3a295a580ef316b297a69be22b89729ae8c1d2a',
-        deploymentBlock: 968484,
-      },
-      dXSTRK: {
-        address: '0x0424638c9060d08b4820aabbb28347fc7234e2b7aadab58ad0f101e2412ea42d',
-        deploymentBlock: 968481,
-      },
-    },
-  },
+import type {
+  HoldingsRequest,
+  HoldingsResponse,
+  NostraLendingSummary,
+  NostraTokenBalance,
+  NostraTokenKind,
+  ProtocolHoldings,
+  ProtocolMetadata,
+  TokenAmount,
+} from '../../types';
+import { CONTRACTS } from '../../constants';
+
+// Nostra lending tokens, contracts are resolved from the deployment timeline as nostra.<token>.
+// n tokens track the underlying 1:1, i and d tokens accrue interest through an index;
+// C tokens are enabled as collateral
+const NOSTRA_TOKENS = {
+  nXSTRK: { kind: 'supply' as NostraTokenKind, interestBearing: false },
+  nXSTRKC: { kind: 'collateral' as NostraTokenKind, interestBearing: false },
+  iXSTRK: { kind: 'supply' as NostraTokenKind, interestBearing: true },
+  iXSTRKC: { kind: 'collateral' as NostraTokenKind, interestBearing: true },
+  dXSTRK: { kind: 'debt' as NostraTokenKind, interestBearing: true },
 };
 
 export class NostraLendingHoldingsService extends BaseHoldingsService {
-  private config: typeof NOSTRA_CONFIG.mainnet;
-
-  constructor(config: SDKOptions) {
-    super(config);
-    this.config = NOSTRA_CONFIG[config.config.network as keyof typeof NOSTRA_CONFIG] || NOSTRA_CONFIG.mainnet;
-  }
-
   async getHoldings(request: HoldingsRequest): Promise<HoldingsResponse> {
     this.validateProvider();
     this.validateAddress(request.address);
@@ -74,7 +34,7 @@ export class NostraLendingHoldingsService extends BaseHoldingsService {
 
     return {
       success: true,
-      data: holdings,
+      data: this.finalizeHoldings(holdings, request.includePositions),
       protocol: 'nostra',
       timestamp: Date.now(),
     };
@@ -84,58 +44,166 @@ export class NostraLendingHoldingsService extends BaseHoldingsService {
     address: string,
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
-    let xSTRKAmount = BigInt(0);
-    let STRKAmount = BigInt(0);
-
-    // Get holdings from all Nostra vaults
-    const vaultHoldings = await Promise.all([
-      this.getVaultHoldings(address, 'nXSTRK', blockNumber),
-      this.getVaultHoldings(address, 'nXSTRKC', blockNumber),
-      this.getVaultHoldings(address, 'iXSTRK', blockNumber),
-      this.getVaultHoldings(address, 'iXSTRKC', blockNumber),
-      this.getVaultHoldings(address, 'dXSTRK', blockNumber),
-    ]);
-
-    // Sum up vault holdings
-    for (const holding of vaultHoldings) {
-      xSTRKAmount += BigInt(holding.xSTRKAmount);
-      STRKAmount += BigInt(holding.STRKAmount);
+    const balances = await this.getTokenBalances(address, blockNumber);
+    const xSTRK = CONTRACTS[this.sdkConfig.config.network].lst;
+
+    const positions = await Promise.all(
+      balances.map(async balance =>
+        this.createPosition(
+          balance.token,
+          'lending',
+          this.createTokenHoldings([
+            await this.createTokenAmount(xSTRK, balance.underlying, balance.kind === 'debt'),
+          ]),
+          {
+            token: balance.token,
+            contract: balance.contract,
+            kind: balance.kind,
+            balance: balance.balance,
+          }
+        )
+      )
+    );
+
+    // Holdings are gross: debt is kept as debt tokens and netted only in the lending summary
+    return {
+      ...this.createTokenHoldings(positions.flatMap(position => position.tokens ?? [])),
+      positions,
+    };
+  }
+
+  /**
+   * Gets the gross xSTRK supply, collateral and debt of a user and the resulting net position
+   */
+  async getLendingSummary(address: string, blockNumber?: BlockIdentifier): Promise<NostraLendingSummary> {
+    this.validateProvider();
+    this.validateAddress(address);
+
+    const tokens = await this.getTokenBalances(address, blockNumber);
+    const sum = (kinds: NostraTokenKind[]) =>
+      tokens
+        .filter(token => kinds.includes(token.kind))
+        .reduce((acc, token) => acc + BigInt(token.underlying), BigInt(0));
+    const supply = sum(['supply', 'collateral']);
+    const debt = sum(['debt']);
+
+    return {
+      supply: supply.toString(),
+      collateral: sum(['collateral']).toString(),
+      debt: debt.toString(),
+      net: (supply - debt).toString(),
+      tokens,
+    };
+  }
+
+  /**
+   * Gets the xSTRK supplied to the market net of what is borrowed
+   */
+  override async getMetrics(blockNumber?: BlockIdentifier): Promise<ProtocolMetadata> {
+    this.validateProvider();
+    const xSTRK = CONTRACTS[this.sdkConfig.config.network].lst;
+    const tokenTypes = Object.keys(NOSTRA_TOKENS) as (keyof typeof NOSTRA_TOKENS)[];
+
+    const totals = await Promise.all(
+      tokenTypes.map(async tokenType => {
+        const total = await this.getTokenTotal(tokenType, blockNumber);
+        return total === null
+          ? null
+          : await this.createTokenAmount(xSTRK, total, NOSTRA_TOKENS[tokenType].kind === 'debt');
+      })
+    );
+    const tokens = totals.filter((token): token is TokenAmount => token !== null);
+    if (tokens.length === 0) {
+      return this.createZeroMetrics();
     }
 
+    // Debt is netted against supply
+    const market = this.createTokenHoldings(tokens, true);
     return {
-      xSTRKAmount: xSTRKAmount.toString(),
-      STRKAmount: STRKAmount.toString(),
+      totalAssets: market.xSTRKAmount,
+      tokens: market.tokens ?? [],
     };
   }
 
-  private async getVaultHoldings(
+  private async getTokenBalances(
     address: string,
-    vaultType: keyof typeof NOSTRA_CONFIG.mainnet.contracts,
     blockNumber?: BlockIdentifier
-  ): Promise<ProtocolHoldings> {
-    const contractConfig = this.config.contracts[vaultType];
-    
-    if (!this.isContractDeployed(blockNumber, contractConfig.deploymentBlock)) {
-      return this.createZeroHoldings();
+  ): Promise<NostraTokenBalance[]> {
+    const tokenTypes = Object.keys(NOSTRA_TOKENS) as (keyof typeof NOSTRA_TOKENS)[];
+    const balances = await Promise.all(
+      tokenTypes.map(tokenType => this.getTokenBalance(address, tokenType, blockNumber))
+    );
+    return balances.filter((balance): balance is NostraTokenBalance => balance !== null);
+  }
+
+  private async getTokenBalance(
+    address: string,
+    tokenType: keyof typeof NOSTRA_TOKENS,
+    blockNumber?: BlockIdentifier
+  ): Promise<NostraTokenBalance | null> {
+    const tokenConfig = NOSTRA_TOKENS[tokenType];
+    const deployment = this.getDeployment(`nostra.${tokenType}`, blockNumber);
+    if (!deployment) {
+      return null;
     }
 
-    const contract = new Contract(ERC4626_ABI, contractConfig.address, this.provider);
-    
-    const balance = await contract.call('balance_of', [address], {
-      blockIdentifier: blockNumber ?? 'latest',
-    });
+    const contract = this.getContract(deployment);
+    const options = { blockIdentifier: blockNumber ?? 'latest' };
+
+    const balance = await contract.call('balance_of', [address], options);
+    const underlying = tokenConfig.interestBearing && BigInt(balance.toString()) !== BigInt(0)
+      ? await contract.call('convert_to_assets', [balance.toString()], options)
+      : balance;
 
     return {
-      xSTRKAmount: balance.toString(),
-      STRKAmount: '0',
+      token: tokenType,
+      contract: deployment.address,
+      kind: tokenConfig.kind,
+      interestBearing: tokenConfig.interestBearing,
+      balance: balance.toString(),
+      underlying: underlying.toString(),
     };
   }
 
+  /**
+   * Gets the underlying xSTRK behind the whole supply of a Nostra token
+   */
+  private async getTokenTotal(
+    tokenType: keyof typeof NOSTRA_TOKENS,
+    blockNumber?: BlockIdentifier
+  ): Promise<string | null> {
+    const deployment = this.getDeployment(`nostra.${tokenType}`, blockNumber);
+    if (!deployment) {
+      return null;
+    }
+
+    const contract = this.getContract(deployment);
+    const options = { blockIdentifier: blockNumber ?? 'latest' };
+
+    const totalSupply = await contract.call('total_supply', [], options);
+    const underlying = NOSTRA_TOKENS[tokenType].interestBearing && BigInt(totalSupply.toString()) !== BigInt(0)
+      ? await contract.call('convert_to_assets', [totalSupply.toString()], options)
+      : totalSupply;
+
+    return underlying.toString();
+  }
+
   async getVaultHoldingsByType(
     address: string,
-    vaultType: keyof typeof NOSTRA_CONFIG.mainnet.contracts,
+    vaultType: keyof typeof NOSTRA_TOKENS,
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
-    return this.getVaultHoldings(address, vaultType, blockNumber);
+    const balance = await this.getTokenBalance(address, vaultType, blockNumber);
+    if (!balance) {
+      return this.createZeroHoldings();
+    }
+
+    return this.createTokenHoldings([
+      await this.createTokenAmount(
+        CONTRACTS[this.sdkConfig.config.network].lst,
+        balance.underlying,
+        balance.kind === 'debt'
+      ),
+    ], true);
   }
-} 
\ No newline at end of file
+}
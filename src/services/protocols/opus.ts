@@ -1,35 +1,30 @@
 // Opus holdings service
-import { BlockIdentifier, Contract } from 'starknet';
+import { BlockIdentifier, num } from 'starknet';
 import { BaseHoldingsService } from '../holdings';
-import type { HoldingsRequest, HoldingsResponse, ProtocolHoldings, SDKOptions } from '../../types';
-import OPUS_ABI from '../../abis/opus.abi.json';
-
-// Opus configuration
-const OPUS_CONFIG = {
-  mainnet: {
-    contract: {
-      address: '0x04d0bb0a4c40012384e7c419e6eb3c637b28e8363fb66958b60d90505b9c072f',
-      deploymentBlock: 973643,
-    },
-    xSTRKAddress: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d',
-  },
-  testnet: {
-    contract: {
-      address: '0x04d0bb0a4c40012384e7c419e6eb3c637b28e8363fb66958b60d90505b9c072f',
-      deploymentBlock: 973643,
-    },
-    xSTRKAddress: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d',
-  },
-};
+import type {
+  HoldingsRequest,
+  HoldingsResponse,
+  OpusTrove,
+  OpusTroveAsset,
+  ProtocolHoldings,
+  ProtocolMetadata,
+} from '../../types';
+import { CONTRACTS } from '../../constants';
+import { decodeU256, isSameAddress } from '../../utils';
 
-export class OpusHoldingsService extends BaseHoldingsService {
-  private config: typeof OPUS_CONFIG.mainnet;
+// Wad and Ray values of the shrine, as decoded from calls
+interface WadRay {
+  val: bigint;
+}
 
-  constructor(config: SDKOptions) {
-    super(config);
-    this.config = OPUS_CONFIG[config.config.network as keyof typeof OPUS_CONFIG] || OPUS_CONFIG.mainnet;
-  }
+interface ShrineHealth {
+  threshold: WadRay;
+  ltv: WadRay;
+  value: WadRay;
+  debt: WadRay;
+}
 
+export class OpusHoldingsService extends BaseHoldingsService {
   async getHoldings(request: HoldingsRequest): Promise<HoldingsResponse> {
       this.validateProvider();
       this.validateAddress(request.address);
@@ -39,7 +34,7 @@ export class OpusHoldingsService extends BaseHoldingsService {
 
       return {
         success: true,
-        data: holdings,
+        data: this.finalizeHoldings(holdings, request.includePositions),
         protocol: 'opus',
         timestamp: Date.now(),
       };
@@ -49,26 +44,28 @@ export class OpusHoldingsService extends BaseHoldingsService {
     address: string,
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
-    if (!this.isContractDeployed(blockNumber, this.config.contract.deploymentBlock)) {
+    const deployment = this.getDeployment('opus.abbot', blockNumber);
+    if (!deployment) {
       return this.createZeroHoldings();
     }
 
-    const contract = new Contract(OPUS_ABI, this.config.contract.address, this.provider);
+    const contract = this.getContract(deployment);
     
     // Get user trove IDs
-    const userTroves = await contract.call('get_user_trove_ids', [address], {
+    const userTroves = (await contract.call('get_user_trove_ids', [address], {
       blockIdentifier: blockNumber ?? 'latest',
-    });
+    })) as bigint[];
 
-    if (!userTroves || (userTroves as any).length === 0) {
+    if (!userTroves || userTroves.length === 0) {
       return this.createZeroHoldings();
     }
 
     // Get xSTRK balance for each trove
-    const balancePromises = (userTroves as any).map((troveId: string) => {
-      return contract.call('get_trove_asset_balance', [troveId, this.config.xSTRKAddress], {
+    const xSTRK = CONTRACTS[this.sdkConfig.config.network].lst;
+    const balancePromises = userTroves.map(troveId => {
+      return contract.call('get_trove_asset_balance', [troveId, xSTRK], {
         blockIdentifier: blockNumber ?? 'latest',
-      });
+      }) as Promise<bigint>;
     });
 
     const balances: bigint[] = await Promise.all(balancePromises);
@@ -79,24 +76,37 @@ export class OpusHoldingsService extends BaseHoldingsService {
       BigInt(0)
     );
 
+    const positions = userTroves.map((troveId, index) =>
+      this.createPosition(
+        troveId.toString(),
+        'trove',
+        { xSTRKAmount: (balances[index] ?? 0n).toString(), STRKAmount: '0' },
+        { troveId: troveId.toString() }
+      )
+    );
+
     return {
       xSTRKAmount: xSTRKAmount.toString(),
       STRKAmount: '0',
+      positions,
     };
   }
 
   async getUserTroves(address: string, blockNumber?: BlockIdentifier): Promise<string[]> {
-    if (!this.isContractDeployed(blockNumber, this.config.contract.deploymentBlock)) {
+    this.validateProvider();
+    this.validateAddress(address);
+    const deployment = this.getDeployment('opus.abbot', blockNumber);
+    if (!deployment) {
       return [];
     }
 
-    const contract = new Contract(OPUS_ABI, this.config.contract.address, this.provider);
+    const contract = this.getContract(deployment);
     
-    const userTroves = await contract.call('get_user_trove_ids', [address], {
+    const userTroves = (await contract.call('get_user_trove_ids', [address], {
       blockIdentifier: blockNumber ?? 'latest',
-    });
+    })) as bigint[];
 
-    return (userTroves as any) || [];
+    return userTroves.map(id => id.toString());
   }
 
   async getTroveAssetBalance(
@@ -104,11 +114,13 @@ export class OpusHoldingsService extends BaseHoldingsService {
     assetAddress: string,
     blockNumber?: BlockIdentifier
   ): Promise<string> {
-    if (!this.isContractDeployed(blockNumber, this.config.contract.deploymentBlock)) {
+    this.validateProvider();
+    const deployment = this.getDeployment('opus.abbot', blockNumber);
+    if (!deployment) {
       return '0';
     }
 
-    const contract = new Contract(OPUS_ABI, this.config.contract.address, this.provider);
+    const contract = this.getContract(deployment);
     
     const balance = await contract.call('get_trove_asset_balance', [troveId, assetAddress], {
       blockIdentifier: blockNumber ?? 'latest',
@@ -116,4 +128,133 @@ export class OpusHoldingsService extends BaseHoldingsService {
 
     return balance.toString();
   }
-} 
\ No newline at end of file
+
+  /**
+   * Gets the xSTRK deposited in all troves, as held by the xSTRK gate, and the yang minted for it
+   */
+  override async getMetrics(blockNumber?: BlockIdentifier): Promise<ProtocolMetadata> {
+    this.validateProvider();
+    const shrineDeployment = this.getDeployment('opus.shrine', blockNumber);
+    const sentinelDeployment = this.getDeployment('opus.sentinel', blockNumber);
+    if (!shrineDeployment || !sentinelDeployment) {
+      return this.createZeroMetrics();
+    }
+
+    const shrine = this.getContract(shrineDeployment);
+    const blockIdentifier = blockNumber ?? 'latest';
+    const xSTRK = CONTRACTS[this.sdkConfig.config.network].lst;
+
+    // Reading an unknown yang reverts, so check that xSTRK is accepted as collateral first
+    const yangs = (await shrine.call('get_yangs', [], { blockIdentifier })) as bigint[];
+    if (!yangs.some(yang => isSameAddress(yang.toString(), xSTRK))) {
+      return this.createZeroMetrics();
+    }
+
+    const sentinel = this.getContract(sentinelDeployment);
+    const [yangTotal, gate] = await Promise.all([
+      shrine.call('get_yang_total', [xSTRK], { blockIdentifier }) as Promise<WadRay>,
+      sentinel.call('get_gate_address', [xSTRK], { blockIdentifier }) as Promise<bigint>,
+    ]);
+    // Yang is not 1:1 with the assets once the gate accrues, so the assets are the gate's balance
+    const balance = await this.provider.callContract(
+      { contractAddress: xSTRK, entrypoint: 'balance_of', calldata: [num.toHex(gate)] },
+      blockIdentifier
+    );
+    const totalAssets = decodeU256(balance[0], balance[1]).toString();
+
+    return {
+      totalSupply: yangTotal.val.toString(),
+      totalAssets,
+      tokens: [await this.createTokenAmount(xSTRK, totalAssets)],
+    };
+  }
+
+  /**
+   * Gets collateral, debt and health of a trove
+   */
+  async getTrove(troveId: string, blockNumber?: BlockIdentifier): Promise<OpusTrove | null> {
+    this.validateProvider();
+    const abbotDeployment = this.getDeployment('opus.abbot', blockNumber);
+    const shrineDeployment = this.getDeployment('opus.shrine', blockNumber);
+    if (!abbotDeployment || !shrineDeployment) {
+      return null;
+    }
+
+    const abbot = this.getContract(abbotDeployment);
+    const shrine = this.getContract(shrineDeployment);
+    const blockIdentifier = blockNumber ?? 'latest';
+
+    const [yangs, health, isHealthy] = await Promise.all([
+      shrine.call('get_yangs', [], { blockIdentifier }) as Promise<bigint[]>,
+      shrine.call('get_trove_health', [troveId], { blockIdentifier }) as Promise<ShrineHealth>,
+      shrine.call('is_healthy', [troveId], { blockIdentifier }),
+    ]);
+
+    const assets = await Promise.all(
+      yangs.map(async (yang): Promise<OpusTroveAsset> => {
+        const yangAddress = `0x${yang.toString(16)}`;
+        const [assetAmount, yangAmount, price] = await Promise.all([
+          abbot.call('get_trove_asset_balance', [troveId, yangAddress], { blockIdentifier }) as Promise<bigint>,
+          shrine.call('get_deposit', [yangAddress, troveId], { blockIdentifier }) as Promise<WadRay>,
+          // (price, cumulative price, interval)
+          shrine.call('get_current_yang_price', [yangAddress], { blockIdentifier }) as Promise<{ 0: WadRay }>,
+        ]);
+        const yangWad = BigInt(yangAmount.val.toString());
+        const priceWad = BigInt(price[0].val.toString());
+
+        return {
+          yang: yangAddress,
+          assetAmount: assetAmount.toString(),
+          yangAmount: yangWad.toString(),
+          value: (yangWad * priceWad / BigInt(10 ** 18)).toString(),
+        };
+      })
+    );
+
+    return {
+      troveId: troveId.toString(),
+      assets: assets.filter(asset => BigInt(asset.yangAmount) !== 0n),
+      debt: health.debt.val.toString(),
+      value: health.value.val.toString(),
+      ltv: health.ltv.val.toString(),
+      threshold: health.threshold.val.toString(),
+      isHealthy: Boolean(isHealthy),
+    };
+  }
+
+  /**
+   * Gets collateral, debt and health of all troves of a user
+   */
+  async getUserTroveDetails(address: string, blockNumber?: BlockIdentifier): Promise<OpusTrove[]> {
+    this.validateProvider();
+    this.validateAddress(address);
+
+    const troveIds = await this.getUserTroves(address, blockNumber);
+    const troves = await Promise.all(
+      troveIds.map(troveId => this.getTrove(troveId.toString(), blockNumber))
+    );
+
+    return troves.filter((trove): trove is OpusTrove => trove !== null);
+  }
+
+  /**
+   * Checks if a trove is unhealthy or within a buffer of its liquidation threshold
+   */
+  async isTroveAtRisk(
+    troveId: string,
+    blockNumber?: BlockIdentifier,
+    bufferBps: number = 0
+  ): Promise<boolean> {
+    const trove = await this.getTrove(troveId, blockNumber);
+    if (!trove) {
+      return false;
+    }
+
+    if (!trove.isHealthy) {
+      return true;
+    }
+
+    // At risk once ltv reaches threshold * (1 - buffer)
+    return BigInt(trove.ltv) * 10000n >= BigInt(trove.threshold) * BigInt(10000 - bufferBps);
+  }
+}
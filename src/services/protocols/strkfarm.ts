@@ -1,38 +1,61 @@
 // STRKFarm holdings service
-import { BlockIdentifier, Contract } from 'starknet';
+import { BlockIdentifier, num } from 'starknet';
 import { BaseHoldingsService } from '../holdings';
-import type { HoldingsRequest, HoldingsResponse, ProtocolHoldings, SDKOptions } from '../../types';
-import SENSEI_ABI from '../../abis/sensei.abi.json';
-import EKUBO_STRKFARM_ABI from '../../abis/ekubo_strkfarm.abi.json';
+import type {
+  EkuboPoolKey,
+  HoldingsRequest,
+  HoldingsResponse,
+  ProtocolHoldings,
+  ProtocolMetadata,
+  SDKOptions,
+  STRKFarmFeeSettings,
+  STRKFarmPendingRewards,
+  STRKFarmSenseiPosition,
+  STRKFarmStrategy,
+} from '../../types';
 
-// STRKFarm configuration
+// STRKFarm configuration, contracts are resolved from the deployment timeline
 const STRKFARM_CONFIG = {
   mainnet: {
-    contracts: {
-      xSTRKSensei: {
-        address: '0x07023a5cadc8a5db80e4f0fde6b330cbd3c17bbbf9cb145cbabd7bd5e6fb7b0b',
-        deploymentBlock: 1053807,
-      },
-      ekuboXSTRKSTRK: {
-        address: '0x01f083b98674bc21effee29ef443a00c7b9a500fd92cf30341a3da12c73f2324',
-        deploymentBlock: 1209881,
-      },
+    xSTRKSensei: {
+      // Sensei accounts: 1 is the borrowed STRK, 2 the xSTRK collateral
+      token1: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d',
+      token2: '0x28d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0a',
     },
   },
   testnet: {
-    contracts: {
-      xSTRKSensei: {
-        address: '0x07023a5cadc8a5db80e4f0fde6b330cbd3c17bbbf9cb145cbabd7bd5e6fb7b0b',
-        deploymentBlock: 1053807,
-      },
-      ekuboXSTRKSTRK: {
-        address: '0x01f083b98674bc21effee29ef443a00c7b9a500fd92cf30341a3da12c73f2324',
-        deploymentBlock: 1209881,
-      },
+    xSTRKSensei: {
+      // Sensei accounts: 1 is the borrowed STRK, 2 the xSTRK collateral
+      token1: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d',
+      token2: '0x28d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0a',
     },
   },
 };
 
+// Strategy reads, as decoded from calls
+interface SenseiPositionDescription {
+  estimated_size: bigint;
+  deposit1: bigint;
+  borrow1: bigint;
+  deposit2: bigint;
+  borrow2: bigint;
+}
+
+interface VaultAssets {
+  amount0: bigint;
+  amount1: bigint;
+}
+
+interface VaultSettings {
+  pool_key: { token0: bigint; token1: bigint; fee: bigint; tick_spacing: bigint; extension: bigint };
+  fee_settings: { fee_bps: bigint; fee_collector: bigint };
+}
+
+interface UserRewardsInfo {
+  shares_owned: bigint;
+  index: bigint;
+}
+
 export class STRKFarmSenseiHoldingsService extends BaseHoldingsService {
   private config: typeof STRKFARM_CONFIG.mainnet;
 
@@ -50,7 +73,7 @@ export class STRKFarmSenseiHoldingsService extends BaseHoldingsService {
 
       return {
         success: true,
-        data: holdings,
+        data: this.finalizeHoldings(holdings, request.includePositions),
         protocol: 'strkfarm',
         timestamp: Date.now(),
       };
@@ -72,6 +95,8 @@ export class STRKFarmSenseiHoldingsService extends BaseHoldingsService {
     return {
       xSTRKAmount: xSTRKAmount.toString(),
       STRKAmount: STRKAmount.toString(),
+      ...(senseiHoldings.tokens ? { tokens: senseiHoldings.tokens } : {}),
+      positions: senseiHoldings.positions ?? [],
     };
   }
 
@@ -79,44 +104,103 @@ export class STRKFarmSenseiHoldingsService extends BaseHoldingsService {
     address: string,
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
-    if (!this.isContractDeployed(blockNumber, this.config.contracts.xSTRKSensei.deploymentBlock)) {
+    const deployment = this.getDeployment('strkfarm.xSTRKSensei', blockNumber);
+    if (!deployment) {
       return this.createZeroHoldings();
     }
 
-      const contract = new Contract(SENSEI_ABI, this.config.contracts.xSTRKSensei.address, this.provider);
-      
-      const info = await contract.call('describe_position', [address], {
-        blockIdentifier: blockNumber ?? 'pending',
-      });
+    const position = await this.getPosition(address, blockNumber);
+    // Borrows are netted against deposits, so the position is valued at its equity
+    const senseiHoldings = this.createTokenHoldings(
+      await Promise.all([
+        this.createTokenAmount(position.token1, position.deposit1),
+        this.createTokenAmount(position.token2, position.deposit2),
+        this.createTokenAmount(position.token1, position.borrow1, true),
+        this.createTokenAmount(position.token2, position.borrow2, true),
+      ]),
+      true
+    );
 
-      const holdings = (info as any)[1];
-      const xSTRKAmount = BigInt(holdings.deposit2.toString());
+    return {
+      ...senseiHoldings,
+      positions: [
+        this.createPosition(deployment.address, 'farm', senseiHoldings, {
+          strategy: 'xSTRKSensei',
+          contract: deployment.address,
+          estimatedSize: position.estimatedSize,
+        }),
+      ],
+    };
+  }
 
-      return {
-        xSTRKAmount: xSTRKAmount.toString(),
-        STRKAmount: '0',
-      };
+  /**
+   * Gets the deposits and borrows of a user in the xSTRK Sensei strategy
+   */
+  async getPosition(address: string, blockNumber?: BlockIdentifier): Promise<STRKFarmSenseiPosition> {
+    this.validateProvider();
+    this.validateAddress(address);
+
+    const senseiConfig = this.config.xSTRKSensei;
+    const deployment = this.requireDeployment('strkfarm.xSTRKSensei', blockNumber);
+    const contract = this.getContract(deployment);
+    // (position, description)
+    const info = (await contract.call('describe_position', [address], {
+      blockIdentifier: blockNumber ?? 'pending',
+    })) as { 1: SenseiPositionDescription };
+
+    const description = info[1];
+    const deposit1 = BigInt(description.deposit1.toString());
+    const borrow1 = BigInt(description.borrow1.toString());
+    const deposit2 = BigInt(description.deposit2.toString());
+    const borrow2 = BigInt(description.borrow2.toString());
+
+    return {
+      contract: deployment.address,
+      estimatedSize: description.estimated_size.toString(),
+      token1: senseiConfig.token1,
+      deposit1: deposit1.toString(),
+      borrow1: borrow1.toString(),
+      net1: (deposit1 - borrow1).toString(),
+      token2: senseiConfig.token2,
+      deposit2: deposit2.toString(),
+      borrow2: borrow2.toString(),
+      net2: (deposit2 - borrow2).toString(),
+    };
   }
-} 
 
-export class STRKFarmEkuboHoldingsService extends BaseHoldingsService {
-  private config: typeof STRKFARM_CONFIG.mainnet;
+  /**
+   * Gets the description of the xSTRK Sensei strategy
+   */
+  async getStrategy(): Promise<STRKFarmStrategy> {
+    const senseiConfig = this.config.xSTRKSensei;
+    return {
+      id: 'xSTRKSensei',
+      type: 'sensei',
+      contract: this.requireDeployment('strkfarm.xSTRKSensei').address,
+      tokens: [senseiConfig.token1, senseiConfig.token2],
+    };
+  }
 
-  constructor(config: SDKOptions) {
-    super(config);
-    this.config = STRKFARM_CONFIG[config.config.network as keyof typeof STRKFARM_CONFIG] || STRKFARM_CONFIG.mainnet;
+  /**
+   * Reports no totals, as the Sensei contract only describes single positions
+   */
+  override async getMetrics(): Promise<ProtocolMetadata> {
+    this.validateProvider();
+    return { tokens: [] };
   }
+} 
 
+export class STRKFarmEkuboHoldingsService extends BaseHoldingsService {
   async getHoldings(request: HoldingsRequest): Promise<HoldingsResponse> {
       this.validateProvider();
       this.validateAddress(request.address);
 
       const { address, blockNumber } = request;
-      const holdings = await this.getSTRKFarmHoldings(address, blockNumber);
+      const holdings = await this.getSTRKFarmHoldings(address, blockNumber, request.includePendingRewards ?? false);
 
       return {
         success: true,
-        data: holdings,
+        data: this.finalizeHoldings(holdings, request.includePositions),
         protocol: 'strkfarm',
         timestamp: Date.now(),
       };
@@ -125,46 +209,186 @@ export class STRKFarmEkuboHoldingsService extends BaseHoldingsService {
 
   private async getSTRKFarmHoldings(
     address: string,
-    blockNumber?: BlockIdentifier
+    blockNumber: BlockIdentifier | undefined,
+    includePendingRewards: boolean
   ): Promise<ProtocolHoldings> {
     let xSTRKAmount = BigInt(0);
     let STRKAmount = BigInt(0);
 
     // Get Ekubo STRKFarm holdings
-    const ekuboHoldings = await this.getEkuboSTRKFarmHoldings(address, blockNumber);
+    const ekuboHoldings = await this.getEkuboSTRKFarmHoldings(address, blockNumber, includePendingRewards);
     xSTRKAmount += BigInt(ekuboHoldings.xSTRKAmount);
     STRKAmount += BigInt(ekuboHoldings.STRKAmount);
 
     return {
       xSTRKAmount: xSTRKAmount.toString(),
       STRKAmount: STRKAmount.toString(),
+      ...(ekuboHoldings.tokens ? { tokens: ekuboHoldings.tokens } : {}),
+      positions: ekuboHoldings.positions ?? [],
     };
   }
 
   private async getEkuboSTRKFarmHoldings(
     address: string,
-    blockNumber?: BlockIdentifier
+    blockNumber: BlockIdentifier | undefined,
+    includePendingRewards: boolean
   ): Promise<ProtocolHoldings> {
-    if (!this.isContractDeployed(blockNumber, this.config.contracts.ekuboXSTRKSTRK.deploymentBlock)) {
+    const deployment = this.getDeployment('strkfarm.ekuboXSTRKSTRK', blockNumber);
+    if (!deployment) {
       return this.createZeroHoldings();
     }
 
-    const contract = new Contract(EKUBO_STRKFARM_ABI, this.config.contracts.ekuboXSTRKSTRK.address, this.provider);
+    const contract = this.getContract(deployment);
     
     const balance = await contract.call('balanceOf', [address], {
       blockIdentifier: blockNumber ?? 'pending',
     });
 
-    const assets = await contract.call('convert_to_assets', [balance.toString()], {
+    const assets = (await contract.call('convert_to_assets', [balance.toString()], {
       blockIdentifier: blockNumber ?? 'pending',
-    });
+    })) as VaultAssets;
 
-    const xSTRKAmount = BigInt((assets as any).amount0.toString());
-    const STRKAmount = BigInt((assets as any).amount1.toString());
+    // Vault assets are reported in the tokens of the Ekubo pool it provides liquidity to
+    const settings = await this.getSettings(blockNumber);
+    const vaultHoldings = this.createTokenHoldings(
+      await Promise.all([
+        this.createTokenAmount(settings.pool_key.token0.toString(), assets.amount0.toString()),
+        this.createTokenAmount(settings.pool_key.token1.toString(), assets.amount1.toString()),
+      ])
+    );
+
+    const rewards = includePendingRewards ? await this.getPendingRewards(address, blockNumber) : null;
 
     return {
-      xSTRKAmount: xSTRKAmount.toString(),
-      STRKAmount: STRKAmount.toString(),
+      ...vaultHoldings,
+      positions: [
+        this.createPosition(deployment.address, 'vault', vaultHoldings, {
+          strategy: 'ekuboXSTRKSTRK',
+          contract: deployment.address,
+          shares: balance.toString(),
+          ...(rewards ? { pendingShares: rewards.pendingShares } : {}),
+        }),
+      ],
+    };
+  }
+
+  /**
+   * Gets the harvest rewards accrued to a user that are not minted as vault shares yet
+   */
+  async getPendingRewards(address: string, blockNumber?: BlockIdentifier): Promise<STRKFarmPendingRewards> {
+    this.validateProvider();
+    this.validateAddress(address);
+
+    const deployment = this.requireDeployment('strkfarm.ekuboXSTRKSTRK', blockNumber);
+    const contract = this.getContract(deployment);
+    const options = { blockIdentifier: blockNumber ?? 'pending' };
+
+    const [userInfo, additional, totalRewards] = await Promise.all([
+      contract.call('get_user_reward_info', [address], options) as Promise<UserRewardsInfo>,
+      contract.call('get_additional_shares', [address], options) as Promise<{ 0: bigint; 1: bigint; 2: bigint }>,
+      contract.call('get_total_rewards', [], options),
+    ]);
+    // get_additional_shares returns (additional shares, last block, pending round points)
+    const pendingShares = BigInt(additional[0].toString());
+    const assets = pendingShares === BigInt(0)
+      ? { amount0: 0n, amount1: 0n }
+      : ((await contract.call('convert_to_assets', [pendingShares.toString()], options)) as VaultAssets);
+
+    return {
+      contract: deployment.address,
+      shares: userInfo.shares_owned.toString(),
+      pendingShares: pendingShares.toString(),
+      amount0: assets.amount0.toString(),
+      amount1: assets.amount1.toString(),
+      pendingRoundPoints: additional[2].toString(),
+      lastUpdateBlock: Number(additional[1]),
+      rewardRoundIndex: Number(userInfo.index),
+      totalRewardRounds: Number(totalRewards),
+    };
+  }
+
+  /**
+   * Gets the share supply, assets and performance fee of the Ekubo vault
+   */
+  override async getMetrics(blockNumber?: BlockIdentifier): Promise<ProtocolMetadata> {
+    this.validateProvider();
+    const deployment = this.getDeployment('strkfarm.ekuboXSTRKSTRK', blockNumber);
+    if (!deployment) {
+      return this.createZeroMetrics();
+    }
+
+    const contract = this.getContract(deployment);
+    const options = { blockIdentifier: blockNumber ?? 'pending' };
+    const [totalSupply, settings] = await Promise.all([
+      contract.call('total_supply', [], options),
+      this.getSettings(blockNumber),
+    ]);
+    const assets = BigInt(totalSupply.toString()) === BigInt(0)
+      ? { amount0: 0n, amount1: 0n }
+      : ((await contract.call('convert_to_assets', [totalSupply.toString()], options)) as VaultAssets);
+
+    const holdings = this.createTokenHoldings(
+      await Promise.all([
+        this.createTokenAmount(num.toHex(settings.pool_key.token0), assets.amount0.toString()),
+        this.createTokenAmount(num.toHex(settings.pool_key.token1), assets.amount1.toString()),
+      ])
+    );
+
+    return {
+      totalSupply: totalSupply.toString(),
+      totalAssets: holdings.xSTRKAmount,
+      fees: settings.fee_settings.fee_bps.toString(),
+      tokens: holdings.tokens ?? [],
+    };
+  }
+
+  /**
+   * Gets the performance fee and its collector of the Ekubo vault
+   */
+  async getFeeSettings(blockNumber?: BlockIdentifier): Promise<STRKFarmFeeSettings> {
+    const settings = await this.getSettings(blockNumber);
+    return {
+      feeBps: Number(settings.fee_settings.fee_bps),
+      feeCollector: num.toHex(settings.fee_settings.fee_collector),
     };
   }
+
+  /**
+   * Gets the description of the xSTRK/STRK Ekubo vault strategy
+   */
+  async getStrategy(blockNumber?: BlockIdentifier): Promise<STRKFarmStrategy> {
+    const settings = await this.getSettings(blockNumber);
+    return {
+      id: 'ekuboXSTRKSTRK',
+      type: 'ekuboVault',
+      contract: this.requireDeployment('strkfarm.ekuboXSTRKSTRK', blockNumber).address,
+      tokens: [num.toHex(settings.pool_key.token0), num.toHex(settings.pool_key.token1)],
+      feeSettings: {
+        feeBps: Number(settings.fee_settings.fee_bps),
+        feeCollector: num.toHex(settings.fee_settings.fee_collector),
+      },
+    };
+  }
+
+  /**
+   * Gets the key of the Ekubo pool the vault provides liquidity to
+   */
+  async getPoolKey(blockNumber?: BlockIdentifier): Promise<EkuboPoolKey> {
+    const { pool_key: poolKey } = await this.getSettings(blockNumber);
+    return {
+      token0: num.toHex(poolKey.token0),
+      token1: num.toHex(poolKey.token1),
+      fee: BigInt(poolKey.fee).toString(),
+      tickSpacing: BigInt(poolKey.tick_spacing).toString(),
+      extension: num.toHex(poolKey.extension),
+    };
+  }
+
+  private async getSettings(blockNumber?: BlockIdentifier): Promise<VaultSettings> {
+    this.validateProvider();
+    const contract = this.getContract(this.requireDeployment('strkfarm.ekuboXSTRKSTRK', blockNumber));
+    return contract.call('get_settings', [], {
+      blockIdentifier: blockNumber ?? 'pending',
+    }) as Promise<VaultSettings>;
+  }
 } 
\ No newline at end of file
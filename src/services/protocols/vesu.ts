@@ -1,52 +1,13 @@
 // Vesu holdings service
-import { BlockIdentifier, Contract } from 'starknet';
+import { BlockIdentifier, num } from 'starknet';
 import { BaseHoldingsService } from '../holdings';
-import type { HoldingsRequest, HoldingsResponse, ProtocolHoldings, SDKOptions } from '../../types';
-import ERC4626_ABI from '../../abis/erc4626.abi.json';
-import VESU_SINGLETON_ABI from '../../abis/vesu.singleton.abi.json';
+import type { ContractDeployment, HoldingsChangeEvent, HoldingsRequest, HoldingsResponse, ProtocolHoldings, ProtocolMetadata, ProtocolPosition, SDKOptions, TokenAmount, VesuPositionRisk } from '../../types';
 import { CONTRACTS } from '../../constants';
+import { decodeSigned, decodeU256, getAllEvents, getEventSelector, isSameAddress } from '../../utils';
 
-// Vesu configuration
+// Vesu configuration, the singleton and vaults are resolved from the deployment timeline
 const VESU_CONFIG = {
   mainnet: {
-    contracts: {
-      vXSTRK: {
-        address: '0x037ff012710c5175004687bc4d9e4c6e86d6ce5ca6fb6afee72ea02b1208fdb7',
-        deploymentBlock: 954847,
-        maxBlock: 1440400,
-      },
-      vXSTRKV2: {
-        address: '0x040f67320745980459615f4f3e7dd71002dbe6c68c8249c847c82dbe327b23cb',
-        deploymentBlock: 1440456,
-      },
-      vAlterscopeXSTRK: {
-        address: '0x062b16a3c933bd60eddc9630c3d088f0a1e9dcd510fbbf4ff3fb3b6a3839fd8a',
-        deploymentBlock: 1197971,
-        maxBlock: 1440400,
-      },
-      vAlterscopeXSTRKV2: {
-        address: '0x020478f0a1b1ef010aa24104ba0e91bf60efcabed02026b75e1d68690809e453',
-        deploymentBlock: 1440471,
-      },
-      vRE7rUSDCXSTRK: {
-        address: '0x069d2c197680bd60bafe1804239968275a1c85a1cad921809277306634b332b5',
-        deploymentBlock: 1240391,
-        maxBlock: 1440400,
-      },
-      vRE7rUSDCXSTRKV2: {
-        address: '0x0318761ecb936a2905306c371c7935d2a6a0fa24493ac7c87be3859a36e2563a',
-        deploymentBlock: 1440481,
-      },
-    },
-    singleton: {
-      address: '0x02545b2e5d519fc230e9cd781046d3a64e092114f07e44771e0d719d148725ef',
-      deploymentBlock: 954847,
-      maxBlock: 1440400,
-    },
-    singletonV2: {
-      address: '0x000d8d6dfec4d33bfb6895de9f3852143a17c6f92fd2a21da3d6924d34870160',
-      deploymentBlock: 1440481,
-    },
     pools: {
       RE7_XSTRK: {
         id: '0x52fb52363939c3aa848f8f4ac28f0a51379f8d1b971d8444de25fbd77d8f161',
@@ -66,50 +27,12 @@ const VESU_CONFIG = {
       STRK: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d',
       ETH: '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7',
       USDC: '0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8',
-      USDT: '0x068f5c6a617307684de5657061a5b3d3c8c8c8c8c8c8c8c8c8c8c8c8c8c8c8c',
-      WBTC: '0x03fe2b97c1fd336e750087d68b641b00075fe5c8c8c8c8c8c8c8c8c8c8c8c8c',
+      USDT: '0x068f5c6a61780768455de69077e07e89787839bf8166decfbf92b645209c0fb8',
+      WBTC: '0x03fe2b97c1fd336e750087d68b9b867997fd64a2661ff3ca5a7c771641e8e7ac',
       RUSDC: '0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8',
     },
   },
   testnet: {
-    contracts: {
-      vXSTRK: {
-        address: '0x037ff012710c5175004687bc4d9e4c6e86d6ce5ca6fb6afee72ea02b1208fdb7',
-        deploymentBlock: 954847,
-        maxBlock: 1440400,
-      },
-      vXSTRKV2: {
-        address: '0x040f67320745980459615f4f3e7dd71002dbe6c68c8249c847c82dbe327b23cb',
-        deploymentBlock: 1440456,
-      },
-      vAlterscopeXSTRK: {
-        address: '0x062b16a3c933bd60eddc9630c3d088f0a1e9dcd510fbbf4ff3fb3b6a3839fd8a',
-        deploymentBlock: 1197971,
-        maxBlock: 1440400,
-      },
-      vAlterscopeXSTRKV2: {
-        address: '0x020478f0a1b1ef010aa24104ba0e91bf60efcabed02026b75e1d68690809e453',
-        deploymentBlock: 1440471,
-      },
-      vRE7rUSDCXSTRK: {
-        address: '0x069d2c197680bd60bafe1804239968275a1c85a1cad921809277306634b332b5',
-        deploymentBlock: 1240391,
-        maxBlock: 1440400,
-      },
-      vRE7rUSDCXSTRKV2: {
-        address: '0x0318761ecb936a2905306c371c7935d2a6a0fa24493ac7c87be3859a36e2563a',
-        deploymentBlock: 1440481,
-      },
-    },
-    singleton: {
-      address: '0x02545b2e5d519fc230e9cd781046d3a64e092114f07e44771e0d719d148725ef',
-      deploymentBlock: 954847,
-      maxBlock: 1440400,
-    },
-    singletonV2: {
-      address: '0x000d8d6dfec4d33bfb6895de9f3852143a17c6f92fd2a21da3d6924d34870160',
-      deploymentBlock: 1440481,
-    },
     pools: {
       RE7_XSTRK: {
         id: '0x52fb52363939c3aa848f8f4ac28f0a51379f8d1b971d8444de25fbd77d8f161',
@@ -129,13 +52,35 @@ const VESU_CONFIG = {
       STRK: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d',
       ETH: '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7',
       USDC: '0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8',
-      USDT: '0x068f5c6a617307684de5657061a5b3d3c8c8c8c8c8c8c8c8c8c8c8c8c8c8c8c',
-      WBTC: '0x03fe2b97c1fd336e750087d68b641b00075fe5c8c8c8c8c8c8c8c8c8c8c8c8c',
+      USDT: '0x068f5c6a61780768455de69077e07e89787839bf8166decfbf92b645209c0fb8',
+      WBTC: '0x03fe2b97c1fd336e750087d68b9b867997fd64a2661ff3ca5a7c771641e8e7ac',
       RUSDC: '0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8',
     },
   },
 };
 
+// Singleton reads, as decoded from calls: (position, collateral, debt)
+interface PositionResult {
+  1: bigint;
+  2: bigint;
+}
+
+// (collateralized, collateral value, debt value)
+interface CollateralizationResult {
+  0: boolean;
+  1: bigint;
+  2: bigint;
+}
+
+interface LTVConfig {
+  max_ltv: bigint;
+}
+
+// (asset config, fee shares)
+interface AssetConfigResult {
+  0: { total_collateral_shares: bigint };
+}
+
 export class VesuHoldingsService extends BaseHoldingsService {
   private config: typeof VESU_CONFIG.mainnet;
 
@@ -153,7 +98,7 @@ export class VesuHoldingsService extends BaseHoldingsService {
 
     return {
       success: true,
-      data: holdings,
+      data: this.finalizeHoldings(holdings, request.includePositions),
       protocol: 'vesu',
       timestamp: Date.now(),
     };
@@ -163,24 +108,21 @@ export class VesuHoldingsService extends BaseHoldingsService {
     address: string,
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
-    let xSTRKAmount = BigInt(0);
-    let STRKAmount = BigInt(0);
-
-    // Get vault holdings
     // Get vault and collateral holdings in parallel
     const [vaultHoldings, collateralHoldings] = await Promise.all([
       this.getVaultHoldings(address, blockNumber),
       this.getCollateralHoldings(address, blockNumber)
     ]);
-    
-    xSTRKAmount += BigInt(vaultHoldings.xSTRKAmount);
-    STRKAmount += BigInt(vaultHoldings.STRKAmount);
-    xSTRKAmount += BigInt(collateralHoldings.xSTRKAmount);
-    STRKAmount += BigInt(collateralHoldings.STRKAmount);
 
     return {
-      xSTRKAmount: xSTRKAmount.toString(),
-      STRKAmount: STRKAmount.toString(),
+      ...this.createTokenHoldings([
+        ...(vaultHoldings.tokens ?? []),
+        ...(collateralHoldings.tokens ?? []),
+      ]),
+      positions: [
+        ...(vaultHoldings.positions ?? []),
+        ...(collateralHoldings.positions ?? []),
+      ],
     };
   }
 
@@ -188,67 +130,66 @@ export class VesuHoldingsService extends BaseHoldingsService {
     address: string,
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
-    const vaults = [
-      { type: 'vXSTRK', config1: this.config.contracts.vXSTRK, config2: this.config.contracts.vXSTRKV2 },
-      { type: 'vAlterscopeXSTRK', config1: this.config.contracts.vAlterscopeXSTRK, config2: this.config.contracts.vAlterscopeXSTRKV2 },
-      { type: 'vRE7rUSDCXSTRK', config1: this.config.contracts.vRE7rUSDCXSTRK, config2: this.config.contracts.vRE7rUSDCXSTRKV2 },
-    ];
+    const vaults = ['vXSTRK', 'vAlterscopeXSTRK', 'vRE7rUSDCXSTRK'];
 
-    let totalXSTRK = BigInt(0);
-    let totalSTRK = BigInt(0);
-
-    const vaultHoldingsPromises = vaults.map(vault => 
-      this.getVaultHoldingsByType(address, vault.type, vault.config1, vault.config2, blockNumber)
+    const vaultHoldingsPromises = vaults.map(vault =>
+      this.getVaultHoldingsByType(address, vault, blockNumber)
     );
     const vaultHoldingsResults = await Promise.all(vaultHoldingsPromises);
 
-    for (const holdings of vaultHoldingsResults) {
-      totalXSTRK += BigInt(holdings.xSTRKAmount);
-      totalSTRK += BigInt(holdings.STRKAmount);
-    }
-
     return {
-      xSTRKAmount: totalXSTRK.toString(),
-      STRKAmount: totalSTRK.toString(),
+      ...this.createTokenHoldings(vaultHoldingsResults.flatMap(holdings => holdings.tokens ?? [])),
+      positions: vaultHoldingsResults.flatMap(holdings => holdings.positions ?? []),
     };
   }
 
   private async getVaultHoldingsByType(
     address: string,
     vaultType: string,
-    vaultConfig1: {address: string, deploymentBlock: number, maxBlock: number},
-    vaultConfig2: {address: string, deploymentBlock: number},
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
-      const isV1Deployed = this.isContractDeployed(blockNumber, vaultConfig1.deploymentBlock, vaultConfig1.maxBlock);
-      const isV2Deployed = this.isContractDeployed(blockNumber, vaultConfig2.deploymentBlock);
+      // Shares of every version deployed so far are valued with the current one
+      const contract = `vesu.${vaultType}`;
+      const versions = this.deployments.getVersions(contract, this.sdkConfig.config.network, blockNumber);
+      const current = this.getDeployment(contract, blockNumber) ?? versions[versions.length - 1];
 
-      if (!isV1Deployed && !isV2Deployed) {
+      if (!current) {
         return this.createZeroHoldings();
       }
 
-      const vTokens = isV2Deployed ? [vaultConfig1.address, vaultConfig2.address] : [vaultConfig1.address];
-      let totalBalance = BigInt(0);
+      const assetsContract = this.getContract(current);
+      const tokens: TokenAmount[] = [];
+      const positions: ProtocolPosition[] = [];
 
-      for (const token of vTokens) {
-        const contract = new Contract(ERC4626_ABI, token, this.provider);
-        
-        const shares = await contract.call('balance_of', [address], {
+      for (const version of versions) {
+        const shares = await this.getContract(version).call('balance_of', [address], {
           blockIdentifier: blockNumber ?? 'pending',
         });
-        const assetsToken = isV2Deployed ? vaultConfig2.address : vaultConfig1.address;
-        const contractV2 = new Contract(ERC4626_ABI, assetsToken, this.provider);
-        
-        const balance = await contractV2.call('convert_to_assets', [shares], {
+
+        const balance = await assetsContract.call('convert_to_assets', [shares], {
           blockIdentifier: blockNumber ?? 'pending',
         });
 
-        totalBalance += BigInt(balance.toString());
+        const vaultToken = await this.createTokenAmount(this.config.tokens.xSTRK, balance.toString());
+        tokens.push(vaultToken);
+        positions.push(
+          this.createPosition(
+            version.address,
+            'vault',
+            this.createTokenHoldings([vaultToken]),
+            {
+              vault: vaultType,
+              version: version.version,
+              contract: version.address,
+              shares: shares.toString(),
+            }
+          )
+        );
       }
 
       return {
-        xSTRKAmount: totalBalance.toString(),
-        STRKAmount: '0',
+        ...this.createTokenHoldings(tokens),
+        positions,
       };
   }
 
@@ -256,57 +197,52 @@ export class VesuHoldingsService extends BaseHoldingsService {
     address: string,
     blockNumber?: BlockIdentifier
   ): Promise<ProtocolHoldings> {
-    const isSingletonDeployed = this.isContractDeployed(
-      blockNumber, 
-      this.config.singleton.deploymentBlock, 
-      this.config.singleton.maxBlock
-    );
-    const isV2SingletonDeployed = this.isContractDeployed(
-      blockNumber, 
-      this.config.singletonV2.deploymentBlock
-    );
-
-    if (!isSingletonDeployed && !isV2SingletonDeployed) {
+    const singleton = this.getDeployment('vesu.singleton', blockNumber);
+    if (!singleton) {
       return this.createZeroHoldings();
     }
 
-    const singletonAddress = isV2SingletonDeployed 
-      ? this.config.singletonV2.address 
-      : this.config.singleton.address;
-
-    let totalXSTRK = BigInt(0);
+    const tokens: TokenAmount[] = [];
+    const positions: ProtocolPosition[] = [];
 
     // Check all pools for collateral
-    const pools = [
-      { id: this.config.pools.RE7_XSTRK.id, debtToken: this.config.tokens.STRK, deploymentBlock: this.config.pools.RE7_XSTRK.deploymentBlock },
-      { id: this.config.pools.RE7_rUSDC.id, debtToken: this.config.tokens.RUSDC, deploymentBlock: this.config.pools.RE7_rUSDC.deploymentBlock },
-      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.WBTC, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
-      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.ETH, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
-      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.USDC, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
-      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.USDT, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
-      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.STRK, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
-    ];
-
-    for (const pool of pools) {
+    for (const pool of this.getPoolPairs()) {
       if (!this.isContractDeployed(blockNumber, pool.deploymentBlock)) {
         continue;
       }
 
       try {
-        const contract = new Contract(VESU_SINGLETON_ABI, singletonAddress, this.provider);
+        const contract = this.getContract(singleton);
         
-        const position = await contract.call('position_unsafe', [
+        const position = (await contract.call('position_unsafe', [
           pool.id,
           this.config.tokens.xSTRK,
           pool.debtToken,
           address,
         ], {
           blockIdentifier: blockNumber ?? 'pending',
-        });
+        })) as PositionResult;
 
-        totalXSTRK += BigInt((position as any)[1].toString());
-      } catch (error: any) {
-        if (error.message.includes('unknown-pool')) {
+        const positionTokens = await Promise.all([
+          this.createTokenAmount(this.config.tokens.xSTRK, position[1].toString()),
+          this.createTokenAmount(pool.debtToken, position[2].toString(), true),
+        ]);
+        tokens.push(...positionTokens);
+        positions.push(
+          this.createPosition(
+            `${pool.id}:${pool.debtToken}`,
+            'collateral',
+            this.createTokenHoldings(positionTokens),
+            {
+              poolId: pool.id,
+              collateralAsset: this.config.tokens.xSTRK,
+              debtAsset: pool.debtToken,
+              singleton: singleton.address,
+            }
+          )
+        );
+      } catch (error: unknown) {
+        if (error instanceof Error && error.message.includes('unknown-pool')) {
           // Skip unknown pools
           continue;
         }
@@ -315,8 +251,220 @@ export class VesuHoldingsService extends BaseHoldingsService {
     }
 
     return {
-      xSTRKAmount: totalXSTRK.toString(),
-      STRKAmount: '0',
+      ...this.createTokenHoldings(tokens),
+      positions,
     };
   }
-} 
\ No newline at end of file
+
+  /**
+   * Gets debt, LTV and health factor of every xSTRK collateral position of a user
+   */
+  async getPositions(
+    address: string,
+    blockNumber?: BlockIdentifier
+  ): Promise<VesuPositionRisk[]> {
+    this.validateProvider();
+    this.validateAddress(address);
+
+    const singleton = this.getDeployment('vesu.singleton', blockNumber);
+    if (!singleton) {
+      return [];
+    }
+
+    const contract = this.getContract(singleton);
+    const blockIdentifier = blockNumber ?? 'pending';
+    const collateralAsset = this.config.tokens.xSTRK;
+
+    const pools = this.getPoolPairs().filter(pool =>
+      this.isContractDeployed(blockNumber, pool.deploymentBlock)
+    );
+    const results = await Promise.all(
+      pools.map(async (pool): Promise<VesuPositionRisk | null> => {
+        const args = [pool.id, collateralAsset, pool.debtToken, address];
+        try {
+          const position = (await contract.call('position_unsafe', args, { blockIdentifier })) as PositionResult;
+          const collateral = BigInt(position[1].toString());
+          const debt = BigInt(position[2].toString());
+          if (collateral === 0n && debt === 0n) {
+            return null;
+          }
+
+          const [collateralization, ltvConfig] = await Promise.all([
+            contract.call('check_collateralization_unsafe', args, { blockIdentifier }) as Promise<CollateralizationResult>,
+            contract.call('ltv_config', [pool.id, collateralAsset, pool.debtToken], { blockIdentifier }) as Promise<LTVConfig>,
+          ]);
+          const collateralValue = BigInt(collateralization[1].toString());
+          const debtValue = BigInt(collateralization[2].toString());
+          const maxLtv = BigInt(ltvConfig.max_ltv.toString());
+          const scale = BigInt(10 ** 18);
+
+          return {
+            poolId: pool.id,
+            singleton: singleton.address,
+            collateralAsset,
+            debtAsset: pool.debtToken,
+            collateral: collateral.toString(),
+            debt: debt.toString(),
+            collateralValue: collateralValue.toString(),
+            debtValue: debtValue.toString(),
+            ltv: collateralValue === 0n ? '0' : (debtValue * scale / collateralValue).toString(),
+            maxLtv: maxLtv.toString(),
+            healthFactor: debtValue === 0n
+              ? null
+              : (collateralValue * maxLtv / debtValue).toString(),
+            isCollateralized: Boolean(collateralization[0]),
+          };
+        } catch (error: unknown) {
+          if (error instanceof Error && error.message.includes('unknown-pool')) {
+            return null;
+          }
+          throw error;
+        }
+      })
+    );
+
+    return results.filter((position): position is VesuPositionRisk => position !== null);
+  }
+
+  /**
+   * Gets the xSTRK supplied to every pool. Vault deposits are supplied to these pools, so they are included
+   */
+  override async getMetrics(blockNumber?: BlockIdentifier): Promise<ProtocolMetadata> {
+    this.validateProvider();
+    const singleton = this.getDeployment('vesu.singleton', blockNumber);
+    if (!singleton) {
+      return this.createZeroMetrics();
+    }
+
+    const contract = this.getContract(singleton);
+    const blockIdentifier = blockNumber ?? 'pending';
+    const xSTRK = this.config.tokens.xSTRK;
+
+    const pools = Object.values(this.config.pools).filter(pool =>
+      this.isContractDeployed(blockNumber, pool.deploymentBlock)
+    );
+    const supplied = await Promise.all(
+      pools.map(async (pool): Promise<bigint> => {
+        try {
+          const assetConfig = (await contract.call('asset_config_unsafe', [pool.id, xSTRK], {
+            blockIdentifier,
+          })) as AssetConfigResult;
+          const collateral = await contract.call(
+            'calculate_collateral_unsafe',
+            [pool.id, xSTRK, { abs: assetConfig[0].total_collateral_shares, is_negative: false }],
+            { blockIdentifier }
+          );
+          return BigInt(collateral.toString());
+        } catch (error: unknown) {
+          if (error instanceof Error && error.message.includes('unknown-pool')) {
+            return 0n;
+          }
+          throw error;
+        }
+      })
+    );
+    const totalAssets = supplied.reduce((acc, amount) => acc + amount, 0n).toString();
+
+    return {
+      totalAssets,
+      tokens: [await this.createTokenAmount(xSTRK, totalAssets)],
+    };
+  }
+
+  /**
+   * Gets the vault deposits, withdrawals and transfers and the xSTRK collateral position changes of a user
+   * between two blocks
+   */
+  override async getChangeEvents(
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<HoldingsChangeEvent[]> {
+    this.validateProvider();
+    this.validateAddress(address);
+
+    const vaultDeployments = ['vXSTRK', 'vAlterscopeXSTRK', 'vRE7rUSDCXSTRK'].flatMap(vault =>
+      this.getDeploymentsInRange(`vesu.${vault}`, fromBlock, toBlock)
+    );
+    const events = await Promise.all([
+      ...vaultDeployments.map(deployment =>
+        this.getVaultEvents('vesu', deployment, address, fromBlock, toBlock)
+      ),
+      ...this.getDeploymentsInRange('vesu.singleton', fromBlock, toBlock).map(singleton =>
+        this.getModifyPositionEvents(singleton, address, fromBlock, toBlock)
+      ),
+    ]);
+    return events.flat();
+  }
+
+  /**
+   * Gets the ModifyPosition events of a user's xSTRK collateral positions on a singleton version
+   */
+  private async getModifyPositionEvents(
+    singleton: ContractDeployment,
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<HoldingsChangeEvent[]> {
+    // ModifyPosition keys: pool id, collateral asset, debt asset, user
+    const events = await getAllEvents(this.provider, {
+      address: singleton.address,
+      keys: [
+        [getEventSelector('ModifyPosition')],
+        [],
+        [num.toHex(this.config.tokens.xSTRK)],
+        [],
+        [num.toHex(address)],
+      ],
+      fromBlock: Math.max(fromBlock, singleton.fromBlock),
+      toBlock: Math.min(toBlock, singleton.toBlock ?? toBlock),
+    });
+
+    return events.map(event => {
+      const [, poolId = '0x0', collateralAsset = '0x0', debtAsset = '0x0', user = '0x0'] = event.keys;
+      const pool = this.getPoolPairs().find(
+        pair => isSameAddress(pair.id, poolId) && isSameAddress(pair.debtToken, debtAsset)
+      );
+      // Data: collateral, collateral shares, debt and nominal debt deltas, each an i257 (low, high, sign)
+      const delta = (offset: number) =>
+        decodeSigned(
+          decodeU256(event.data[offset], event.data[offset + 1]),
+          event.data[offset + 2]
+        ).toString();
+
+      return {
+        protocol: 'vesu',
+        name: 'ModifyPosition',
+        contract: singleton.address,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        positionId: pool ? `${pool.id}:${pool.debtToken}` : `${num.toHex(poolId)}:${num.toHex(debtAsset)}`,
+        values: {
+          poolId: num.toHex(poolId),
+          collateralAsset: num.toHex(collateralAsset),
+          debtAsset: num.toHex(debtAsset),
+          user: num.toHex(user),
+          collateralDelta: delta(0),
+          collateralSharesDelta: delta(3),
+          debtDelta: delta(6),
+          nominalDebtDelta: delta(9),
+        },
+      };
+    });
+  }
+
+  /**
+   * Gets the pool and debt asset pairs with xSTRK collateral
+   */
+  private getPoolPairs(): { id: string; debtToken: string; deploymentBlock: number }[] {
+    return [
+      { id: this.config.pools.RE7_XSTRK.id, debtToken: this.config.tokens.STRK, deploymentBlock: this.config.pools.RE7_XSTRK.deploymentBlock },
+      { id: this.config.pools.RE7_rUSDC.id, debtToken: this.config.tokens.RUSDC, deploymentBlock: this.config.pools.RE7_rUSDC.deploymentBlock },
+      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.WBTC, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
+      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.ETH, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
+      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.USDC, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
+      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.USDT, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
+      { id: this.config.pools.ALTERSCOPE_XSTRK.id, debtToken: this.config.tokens.STRK, deploymentBlock: this.config.pools.ALTERSCOPE_XSTRK.deploymentBlock },
+    ];
+  }
+}
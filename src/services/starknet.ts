@@ -8,7 +8,7 @@ import type {
   Event, 
   BlockInfo 
 } from '../types';
-import { isValidStarknetAddress, isValidHexString } from '../utils';
+import { getAllEvents, isValidStarknetAddress, isValidHexString } from '../utils';
 
 export class StarknetService {
   private provider: any;
@@ -35,6 +35,16 @@ export class StarknetService {
     this.account = account;
   }
 
+  /**
+   * Gets the address of the connected account
+   */
+  getAccountAddress(): string {
+    if (!this.account) {
+      throw new Error('Account not set');
+    }
+    return this.account.address;
+  }
+
   /**
    * Gets the current network
    */
@@ -111,7 +121,7 @@ export class StarknetService {
   }
 
   /**
-   * Gets events
+   * Gets every event matching a filter, following continuation tokens
    */
   async getEvents(filter: EventFilter): Promise<Event[]> {
     if (!this.provider) {
@@ -119,15 +129,13 @@ export class StarknetService {
     }
 
     try {
-      const events = await this.provider.getEvents(filter);
-      return events.map((event: any) => ({
-        transactionHash: event.transaction_hash,
-        blockNumber: event.block_number,
-        blockHash: event.block_hash,
-        address: event.from_address,
-        keys: event.keys,
-        data: event.data,
-      }));
+      const keys = filter.keys?.map((key: string | string[]) => (Array.isArray(key) ? key : [key]));
+      return await getAllEvents(this.provider, {
+        ...(filter.address ? { address: filter.address } : {}),
+        ...(keys ? { keys } : {}),
+        ...(filter.fromBlock !== undefined ? { fromBlock: filter.fromBlock } : {}),
+        ...(filter.toBlock !== undefined ? { toBlock: filter.toBlock } : {}),
+      });
     } catch (error) {
       throw new Error(`Failed to get events: ${error}`);
     }
@@ -0,0 +1,268 @@
+// Unstake router
+import { cairo, CallData as StarknetCallData } from 'starknet';
+import type {
+  CallData,
+  TransactionOptions,
+  TransactionResult,
+  UnstakeOptions,
+  UnstakeQuote,
+  UnstakeRoute,
+  UnstakeRouteType,
+} from '../types';
+import { CONTRACTS, DEFAULT_SWAP_SLIPPAGE_BPS, DEFAULT_WITHDRAWAL_WAIT_TIME } from '../constants';
+import { isSameAddress, isValidStarknetAddress } from '../utils';
+import { HoldingsManager } from './holdings-manager';
+import { BuiltInProtocolServices } from './protocol-registry';
+import { LSTService } from './lst';
+import { StarknetService } from './starknet';
+
+// Unstake configuration
+const UNSTAKE_CONFIG = {
+  mainnet: {
+    ekuboRouter: '0x0199741822c2dc722f6f605204f35e56dbc23bceed54818168c4c49e4fb8737e',
+  },
+  testnet: {
+    ekuboRouter: '0x0',
+  },
+};
+
+// Sqrt ratio bounds of Ekubo pools, used as limits so that only the minimum output check applies
+const EKUBO_MIN_SQRT_RATIO = '18446748437148339061';
+const EKUBO_MAX_SQRT_RATIO = '6277100250585753475930931601400621808602321654880405518632';
+
+// Nostra marginal prices are read from a quote this small
+const NOSTRA_PROBE_AMOUNT = 10n ** 15n;
+
+/**
+ * Compares the ways of turning xSTRK into STRK: redeeming through the withdrawal queue, or selling
+ * on the Ekubo and Nostra xSTRK/STRK pools for STRK right away
+ */
+export class UnstakeRouter {
+  private lst: LSTService;
+  private holdings: HoldingsManager;
+  private starknetService: StarknetService;
+  private network: string;
+
+  constructor(lst: LSTService, holdings: HoldingsManager, starknetService: StarknetService, network: string = 'mainnet') {
+    this.lst = lst;
+    this.holdings = holdings;
+    this.starknetService = starknetService;
+    this.network = network;
+  }
+
+  /**
+   * Quotes every route for an amount of xSTRK. A route that cannot be quoted is returned with its error
+   */
+  async quote(amount: string, options: UnstakeOptions = {}): Promise<UnstakeQuote> {
+    if (BigInt(amount) <= 0n) {
+      throw new Error('Unstake amount must be positive');
+    }
+    const receiver = options.receiver ?? this.starknetService.getAccountAddress();
+    if (!isValidStarknetAddress(receiver)) {
+      throw new Error('Invalid receiver address');
+    }
+
+    const quoters: Record<UnstakeRouteType, () => Promise<UnstakeRoute>> = {
+      withdrawalQueue: () => this.quoteWithdrawalQueue(amount, receiver, options),
+      ekubo: () => this.quoteEkubo(amount, receiver, options),
+      nostra: () => this.quoteNostra(amount, receiver),
+    };
+    const routes = await Promise.all(
+      (Object.keys(quoters) as UnstakeRouteType[]).map(route =>
+        quoters[route]().catch(
+          (error: unknown): UnstakeRoute => ({
+            route,
+            amountIn: amount,
+            expectedSTRK: '0',
+            minimumSTRK: '0',
+            priceImpactBps: '0',
+            waitTime: 0,
+            calls: [],
+            error: error instanceof Error ? error.message : String(error),
+          })
+        )
+      )
+    );
+
+    routes.sort((a, b) => {
+      if (!!a.error !== !!b.error) return a.error ? 1 : -1;
+      const difference = BigInt(b.expectedSTRK) - BigInt(a.expectedSTRK);
+      return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+    });
+    const bestInstant = routes.find(route => !route.error && route.waitTime === 0);
+
+    return {
+      amount,
+      routes,
+      ...(bestInstant ? { bestInstant: bestInstant.route } : {}),
+    };
+  }
+
+  /**
+   * Executes a quoted route from the connected account
+   */
+  async execute(route: UnstakeRoute, options?: TransactionOptions): Promise<TransactionResult> {
+    if (route.error || route.calls.length === 0) {
+      throw new Error(`Route ${route.route} cannot be executed${route.error ? `: ${route.error}` : ''}`);
+    }
+    return this.starknetService.executeTransaction(route.calls, options);
+  }
+
+  /**
+   * Redeems through the LST: the fee-adjusted rate without price impact, paid out once the queue unlocks
+   */
+  private async quoteWithdrawalQueue(amount: string, receiver: string, options: UnstakeOptions): Promise<UnstakeRoute> {
+    const quote = await this.lst.quoteRedeem(amount);
+    if (quote.exceedsMax) {
+      throw new Error(`Amount exceeds the redeemable maximum of ${quote.maxAmount}`);
+    }
+
+    return {
+      route: 'withdrawalQueue',
+      amountIn: amount,
+      expectedSTRK: quote.amountOut,
+      minimumSTRK: quote.amountOut,
+      priceImpactBps: '0',
+      waitTime: options.queueWaitTime ?? DEFAULT_WITHDRAWAL_WAIT_TIME,
+      calls: [this.lst.buildRedeemCall(amount, receiver)],
+    };
+  }
+
+  /**
+   * Sells on the xSTRK/STRK pool of the STRKFarm Ekubo vault through the Ekubo router
+   */
+  private async quoteEkubo(amount: string, receiver: string, options: UnstakeOptions): Promise<UnstakeRoute> {
+    const router = UNSTAKE_CONFIG[this.network as keyof typeof UNSTAKE_CONFIG]?.ekuboRouter || '';
+    if (!isValidStarknetAddress(router) || BigInt(router) === 0n) {
+      throw new Error('Ekubo router is not available on this network');
+    }
+
+    const poolKey = await this.getProtocolService('strkfarmEkubo').getPoolKey();
+    const quote = await this.getProtocolService('ekubo').quoteExactIn(poolKey, this.getXSTRKAddress(), amount);
+    if (quote.partial) {
+      throw new Error(`Ekubo pool can only take ${quote.amountIn} xSTRK within its active range`);
+    }
+    const slippageBps = BigInt(options.slippageBps ?? DEFAULT_SWAP_SLIPPAGE_BPS);
+    const minimum = (BigInt(quote.amountOut) * (10000n - slippageBps)) / 10000n;
+    const sellingToken0 = isSameAddress(quote.tokenIn, poolKey.token0);
+
+    const calls: CallData[] = [
+      this.buildTransferCall(router, amount),
+      {
+        contractAddress: router,
+        entrypoint: 'swap',
+        // RouteNode { pool_key, sqrt_ratio_limit, skip_ahead }, TokenAmount { token, amount: i129 }
+        calldata: StarknetCallData.compile([
+          poolKey.token0,
+          poolKey.token1,
+          poolKey.fee,
+          poolKey.tickSpacing,
+          poolKey.extension,
+          cairo.uint256(sellingToken0 ? EKUBO_MIN_SQRT_RATIO : EKUBO_MAX_SQRT_RATIO),
+          0,
+          quote.tokenIn,
+          amount,
+          0,
+        ]),
+      },
+      {
+        contractAddress: router,
+        entrypoint: 'clear_minimum_to_recipient',
+        calldata: StarknetCallData.compile([quote.tokenOut, cairo.uint256(minimum), receiver]),
+      },
+      // Returns any xSTRK the price limit left unsold
+      {
+        contractAddress: router,
+        entrypoint: 'clear',
+        calldata: StarknetCallData.compile([quote.tokenIn]),
+      },
+    ];
+
+    return {
+      route: 'ekubo',
+      amountIn: amount,
+      expectedSTRK: quote.amountOut,
+      minimumSTRK: minimum.toString(),
+      priceImpactBps: this.getPriceImpactBps(quote.effectivePrice, quote.marginalPrice),
+      waitTime: 0,
+      calls,
+    };
+  }
+
+  /**
+   * Sells on the Nostra xSTRK/STRK pair. The pair pays out exactly what is asked, so it is asked for the
+   * quoted output, which is also the minimum: the swap reverts if the reserves have moved against it
+   */
+  private async quoteNostra(amount: string, receiver: string): Promise<UnstakeRoute> {
+    const service = this.getProtocolService('nostraDex');
+    const xSTRK = this.getXSTRKAddress();
+    const probe = BigInt(amount) < NOSTRA_PROBE_AMOUNT ? BigInt(amount) : NOSTRA_PROBE_AMOUNT;
+    const [pool, quote, marginal] = await Promise.all([
+      service.getPoolState(),
+      service.quoteExactIn(xSTRK, amount),
+      service.quoteExactIn(xSTRK, probe.toString()),
+    ]);
+    if (BigInt(quote.amountOut) === 0n) {
+      throw new Error('Nostra pair has no liquidity');
+    }
+
+    const firstTokenOut = isSameAddress(quote.tokenOut, pool.token0);
+    return {
+      route: 'nostra',
+      amountIn: amount,
+      expectedSTRK: quote.amountOut,
+      minimumSTRK: quote.amountOut,
+      priceImpactBps: this.getPriceImpactBps(quote.effectivePrice, marginal.effectivePrice),
+      waitTime: 0,
+      calls: [
+        this.buildTransferCall(quote.pool, amount),
+        {
+          contractAddress: quote.pool,
+          entrypoint: 'swap',
+          calldata: StarknetCallData.compile([
+            cairo.uint256(firstTokenOut ? quote.amountOut : 0),
+            cairo.uint256(firstTokenOut ? 0 : quote.amountOut),
+            receiver,
+            [],
+          ]),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Gets how much worse an effective price is than the marginal one, in basis points
+   */
+  private getPriceImpactBps(effectivePrice: string, marginalPrice: string): string {
+    const marginal = BigInt(marginalPrice);
+    if (marginal === 0n) {
+      return '0';
+    }
+    const impact = ((marginal - BigInt(effectivePrice)) * 10000n) / marginal;
+    return (impact > 0n ? impact : 0n).toString();
+  }
+
+  private buildTransferCall(recipient: string, amount: string): CallData {
+    return {
+      contractAddress: this.getXSTRKAddress(),
+      entrypoint: 'transfer',
+      calldata: StarknetCallData.compile([recipient, cairo.uint256(amount)]),
+    };
+  }
+
+  private getXSTRKAddress(): string {
+    const address = CONTRACTS[this.network as keyof typeof CONTRACTS]?.lst || '';
+    if (!isValidStarknetAddress(address)) {
+      throw new Error('Invalid LST contract address');
+    }
+    return address;
+  }
+
+  private getProtocolService<P extends 'ekubo' | 'nostraDex' | 'strkfarmEkubo'>(protocol: P): BuiltInProtocolServices[P] {
+    const service = this.holdings.getProtocolService(protocol);
+    if (!service) {
+      throw new Error(`${protocol} service is not available`);
+    }
+    return service;
+  }
+}
@@ -0,0 +1,239 @@
+// Withdrawal queue service
+import { num, CallData as StarknetCallData } from 'starknet';
+import type {
+  CallData,
+  Event,
+  Network,
+  TransactionOptions,
+  TransactionResult,
+  WithdrawalRequest,
+  WithdrawalRequestStatus,
+} from '../types';
+import { CONTRACTS } from '../constants';
+import { decodeU256, getEventSelector, isSameAddress, isValidStarknetAddress } from '../utils';
+import { createDefaultDeploymentTimeline, DeploymentTimeline } from './deployment-timeline';
+import { StarknetService } from './starknet';
+import WITHDRAWAL_QUEUE_ABI from '../abis/withdrawal_queue.abi.json';
+
+// Encodes and decodes withdrawal queue calls from the contract ABI
+const QUEUE_CALLDATA = new StarknetCallData(WITHDRAWAL_QUEUE_ABI);
+
+// Requests read at once while looking for the newest one the queue has funded
+const REQUEST_READ_BATCH = 20;
+
+// Withdrawal queue reads, as decoded from calls
+interface WithdrawRequestInfo {
+  amount_strk: bigint;
+  amount_kstrk: bigint;
+  is_claimed: boolean;
+  timestamp: bigint;
+  claim_time: bigint;
+}
+
+interface WithdrawQueueState {
+  max_request_id: bigint;
+  unprocessed_withdraw_queue_amount: bigint;
+}
+
+/**
+ * Tracks the requests of the LST withdrawal queue. Every request is an NFT held by the user it pays out
+ * to, with `get_request_info(id)` and `claim_withdrawal(id)` on the queue contract
+ */
+export class WithdrawalQueueService {
+  private starknetService: StarknetService;
+  private network: string;
+  private deployments: DeploymentTimeline;
+
+  constructor(
+    starknetService: StarknetService,
+    network: string = 'mainnet',
+    deployments: DeploymentTimeline = createDefaultDeploymentTimeline()
+  ) {
+    this.starknetService = starknetService;
+    this.network = network;
+    this.deployments = deployments;
+  }
+
+  /**
+   * Gets the ids of the requests held by an address (default: connected account), claimed ones included
+   */
+  async getRequestIds(address?: string): Promise<string[]> {
+    const owner = num.toHex(this.resolveAddress(address));
+    const queue = this.getWithdrawalQueueAddress();
+    const transfer = getEventSelector('Transfer');
+    // Requests can only exist once the LST is deployed
+    const fromBlock = this.deployments.getFirstBlock('lst.xSTRK', this.network as Network) ?? 0;
+
+    // Transfer keys: from, to, token id (u256)
+    const [received, sent] = await Promise.all([
+      this.starknetService.getEvents({ address: queue, keys: [[transfer], [], [owner]], fromBlock }),
+      this.starknetService.getEvents({ address: queue, keys: [[transfer], [owner]], fromBlock }),
+    ]);
+
+    // The latest transfer of each request tells whether it is still held; burns on claim keep it listed
+    const latest = new Map<string, Event>();
+    for (const event of [...received, ...sent].sort((a, b) => a.blockNumber - b.blockNumber)) {
+      latest.set(decodeU256(event.keys[3], event.keys[4]).toString(), event);
+    }
+
+    return Array.from(latest.entries())
+      .filter(([, event]) => {
+        const to = event.keys[2] ?? '0x0';
+        return isSameAddress(to, owner) || BigInt(to) === 0n;
+      })
+      .map(([id]) => id)
+      .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  }
+
+  /**
+   * Gets a request with its status at a chain timestamp (default: the latest block)
+   */
+  async getRequest(id: string, owner: string, now?: number): Promise<WithdrawalRequest> {
+    const [request] = await this.getRequestsById([id], owner, now);
+    if (!request) {
+      throw new Error(`Withdrawal request ${id} not found`);
+    }
+    return request;
+  }
+
+  /**
+   * Gets every request of an address (default: connected account), oldest first
+   */
+  async getRequests(address?: string): Promise<WithdrawalRequest[]> {
+    const owner = this.resolveAddress(address);
+    return this.getRequestsById(await this.getRequestIds(owner), owner);
+  }
+
+  /**
+   * Gets the requests of an address (default: connected account) that can be claimed now
+   */
+  async getClaimableRequests(address?: string): Promise<WithdrawalRequest[]> {
+    const requests = await this.getRequests(address);
+    return requests.filter(request => request.status === 'claimable');
+  }
+
+  /**
+   * Builds one claim call per claimable request, as marked when the requests were read
+   */
+  buildClaimCalls(requests: WithdrawalRequest[]): CallData[] {
+    return requests
+      .filter(request => request.status === 'claimable')
+      .map(request => ({
+        contractAddress: this.getWithdrawalQueueAddress(),
+        entrypoint: 'claim_withdrawal',
+        calldata: QUEUE_CALLDATA.compile('claim_withdrawal', { request_id: BigInt(request.id) }),
+      }));
+  }
+
+  /**
+   * Claims every claimable request of the connected account in one transaction
+   */
+  async claimAll(options?: TransactionOptions): Promise<TransactionResult> {
+    const calls = this.buildClaimCalls(await this.getClaimableRequests());
+    if (calls.length === 0) {
+      throw new Error('No claimable withdrawal requests');
+    }
+    return this.starknetService.executeTransaction(calls, options);
+  }
+
+  /**
+   * Reads requests and marks the unlocked ones claimable if the queue has funded them. Requests are
+   * funded oldest first, so the STRK still owed by the queue is owed to its newest requests
+   */
+  private async getRequestsById(ids: string[], owner: string, now?: number): Promise<WithdrawalRequest[]> {
+    const timestamp = now ?? (await this.getLatestTimestamp());
+    const requests = await Promise.all(
+      ids.map(async id => this.toRequest(id, owner, await this.readRequest(BigInt(id)), timestamp))
+    );
+
+    const unlocked = requests.filter(request => request.status === 'claimable').map(request => BigInt(request.id));
+    if (unlocked.length === 0) {
+      return requests;
+    }
+    const funded = await this.getLastFundedRequestId(unlocked.reduce((min, id) => (id < min ? id : min)));
+    for (const request of requests) {
+      if (request.status === 'claimable' && BigInt(request.id) > funded) {
+        request.status = 'pending';
+      }
+    }
+    return requests;
+  }
+
+  /**
+   * Gets the newest request the queue has STRK for, walking back from the newest request until the
+   * requests passed cover what the queue still owes. Stops below `lowestId`, which is then returned less one
+   */
+  private async getLastFundedRequestId(lowestId: bigint): Promise<bigint> {
+    const state = await this.callQueue<WithdrawQueueState>('get_queue_state', {});
+    let owed = BigInt(state.unprocessed_withdraw_queue_amount);
+    let id = BigInt(state.max_request_id);
+
+    while (owed > 0n && id >= lowestId) {
+      const batch: bigint[] = [];
+      for (let next = id; next >= lowestId && batch.length < REQUEST_READ_BATCH; next--) {
+        batch.push(next);
+      }
+      const infos = await Promise.all(batch.map(requestId => this.readRequest(requestId)));
+      for (const info of infos) {
+        if (owed <= 0n) break;
+        owed -= BigInt(info.amount_strk);
+        id -= 1n;
+      }
+    }
+    return id;
+  }
+
+  private async readRequest(id: bigint): Promise<WithdrawRequestInfo> {
+    return this.callQueue<WithdrawRequestInfo>('get_request_info', { request_id: id });
+  }
+
+  private toRequest(id: string, owner: string, info: WithdrawRequestInfo, timestamp: number): WithdrawalRequest {
+    const unlockTime = Number(info.claim_time);
+    let status: WithdrawalRequestStatus = 'pending';
+    if (info.is_claimed) {
+      status = 'claimed';
+    } else if (unlockTime <= timestamp) {
+      status = 'claimable';
+    }
+
+    return {
+      id,
+      owner,
+      amountSTRK: BigInt(info.amount_strk).toString(),
+      amountXSTRK: BigInt(info.amount_kstrk).toString(),
+      createdAt: Number(info.timestamp),
+      unlockTime,
+      status,
+    };
+  }
+
+  private async callQueue<T>(entrypoint: string, args: Record<string, bigint>): Promise<T> {
+    const result = await this.starknetService.callContract({
+      contractAddress: this.getWithdrawalQueueAddress(),
+      entrypoint,
+      calldata: QUEUE_CALLDATA.compile(entrypoint, args),
+    });
+    return QUEUE_CALLDATA.parse(entrypoint, result) as T;
+  }
+
+  private async getLatestTimestamp(): Promise<number> {
+    const block = await this.starknetService.getBlockInfo();
+    return block.timestamp;
+  }
+
+  private resolveAddress(address?: string): string {
+    const resolved = address ?? this.starknetService.getAccountAddress();
+    if (!isValidStarknetAddress(resolved)) {
+      throw new Error('Invalid address');
+    }
+    return resolved;
+  }
+
+  private getWithdrawalQueueAddress(): string {
+    const address = CONTRACTS[this.network as keyof typeof CONTRACTS]?.withdrawalQueue || '';
+    if (!isValidStarknetAddress(address)) {
+      throw new Error('Invalid withdrawal queue contract address');
+    }
+    return address;
+  }
+}
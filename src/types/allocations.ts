@@ -0,0 +1,14 @@
+// Allocation types
+
+import { AllocationData } from "./api";
+
+export type MerkleHashMethod = 'pedersen' | 'poseidon';
+
+export interface AllocationStatus {
+  allocation: AllocationData;
+  proofValid: boolean; // Proof leads from the allocation leaf to the API root
+  onChainRoot: string;
+  rootMatches: boolean; // API root is the root held by the distributor
+  claimedAmount: string; // Already claimed by the address
+  claimable: string; // Amount a claim would transfer now
+}
@@ -1,6 +1,7 @@
 // Core SDK types
 
 import { Account, RpcProvider } from "starknet";
+import type { ContractDeployment } from "./deployments";
 
 export type Network = 'mainnet' | 'testnet';
 
@@ -11,6 +12,10 @@ export interface SDKConfig {
   apiUrl?: string;
   /** Request timeout in milliseconds */
   timeout?: number;
+  /** Contract deployment timeline, defaults to DEPLOYMENTS */
+  deployments?: ContractDeployment[];
+  /** Merkle distributor paying out API allocations */
+  allocationDistributor?: string;
 }
 
 export interface SDKOptions {
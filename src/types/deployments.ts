@@ -0,0 +1,15 @@
+// Contract deployment types
+
+import { Abi } from "starknet";
+import { Network } from "./core";
+
+export interface ContractDeployment {
+  contract: string; // Logical contract id, e.g. 'vesu.singleton'
+  version: string;
+  network: Network;
+  address: string;
+  fromBlock: number; // First block at which this version is active
+  toBlock?: number; // Last active block, unset while the version is current
+  abi?: Abi;
+  successor?: string; // Version that replaced this one
+}
@@ -0,0 +1,61 @@
+// Holdings diff types
+
+import { MultiProtocolOptions, ProtocolPosition, ProtocolType } from "./holdings";
+
+export interface AmountChange {
+  before: string;
+  after: string;
+  delta: string; // After minus before
+}
+
+export interface TokenAmountChange extends AmountChange {
+  token: string; // Token address
+  symbol?: string;
+  decimals: number;
+  isDebt?: boolean;
+}
+
+export type PositionChangeKind = 'opened' | 'closed' | 'changed';
+
+export interface PositionChange {
+  id: string;
+  type: ProtocolPosition['type'];
+  kind: PositionChangeKind; // Opened: only in the later snapshot, closed: only in the earlier one
+  xSTRKAmount: AmountChange;
+  STRKAmount: AmountChange;
+  tokens: TokenAmountChange[]; // Only tokens whose amount changed
+  metadata?: ProtocolPosition['metadata']; // From the later snapshot, or the earlier one for closed positions
+}
+
+export interface ProtocolChange {
+  protocol: string;
+  xSTRKAmount: AmountChange;
+  STRKAmount: AmountChange;
+  tokens: TokenAmountChange[]; // Only tokens whose amount changed
+  positions: PositionChange[]; // Empty unless both snapshots include positions
+  events: HoldingsChangeEvent[]; // Only set when the diff was taken between blocks
+}
+
+export interface HoldingsChangeEvent {
+  protocol: string;
+  name: string; // Event name, e.g. Deposit, Withdraw, Transfer, ModifyPosition, PositionUpdated
+  contract: string; // Emitting contract
+  transactionHash: string;
+  blockNumber: number;
+  positionId?: string; // Position the event changed, when it can be told
+  values: Record<string, string>; // Decoded event members, amounts in the smallest unit
+}
+
+export interface HoldingsDiff {
+  address?: string; // Set when the diff was taken between blocks
+  fromBlock?: number;
+  toBlock?: number;
+  total: Omit<ProtocolChange, 'protocol' | 'positions' | 'events'>;
+  byProtocol: Record<string, ProtocolChange>; // Only protocols whose holdings changed
+  protocols: string[]; // Protocols present in either snapshot
+}
+
+export interface HoldingsDiffOptions extends MultiProtocolOptions {
+  protocols?: ProtocolType[];
+  includeEvents?: boolean; // Link changes to the events between the blocks (default: true)
+}
@@ -3,8 +3,18 @@
 import { BlockIdentifier } from "starknet";
 
 export interface ProtocolHoldings {
-  xSTRKAmount: string;
-  STRKAmount: string;
+  xSTRKAmount: string; // xSTRK held, projected from tokens when they are reported
+  STRKAmount: string; // STRK held, projected from tokens when they are reported
+  tokens?: TokenAmount[]; // Every token held, keyed by address
+  positions?: ProtocolPosition[]; // Only set when requested with includePositions
+}
+
+export interface TokenAmount {
+  token: string; // Token address
+  symbol?: string; // Set for known tokens
+  decimals: number;
+  amount: string; // In the token's smallest unit
+  isDebt?: boolean; // Owed rather than held, never counted in xSTRKAmount/STRKAmount
 }
 
 export interface ProtocolConfig {
@@ -17,19 +27,25 @@ export interface ProtocolConfig {
 
 export interface ProtocolPosition {
   id: string;
-  type: 'lst' | 'lp' | 'vault' | 'farm' | 'trove';
+  type: 'lst' | 'lp' | 'vault' | 'farm' | 'trove' | 'collateral' | 'lending' | 'order';
+  xSTRKAmount: string;
+  STRKAmount: string;
+  /** @deprecated Same as xSTRKAmount */
   amount: string;
+  /** @deprecated Same as STRKAmount */
   value: string;
+  tokens?: TokenAmount[];
   apy?: number;
   metadata?: Record<string, any>;
 }
 
 export interface ProtocolMetadata {
-  totalSupply?: string;
-  totalAssets?: string;
-  exchangeRate?: string;
-  apy?: number;
-  fees?: string;
+  totalSupply?: string; // Supply of the integration's share or LP token
+  totalAssets?: string; // xSTRK held by the integration (STRK staked, for the LST itself)
+  exchangeRate?: string; // Underlying per share, scaled by 1e18
+  apy?: number; // Annualized yield as a fraction
+  fees?: string; // Fee charged by the integration, as reported by its contracts
+  tokens?: TokenAmount[]; // Everything held by the integration, by token
 }
 
 export interface HoldingsRequest {
@@ -37,8 +53,15 @@ export interface HoldingsRequest {
   provider: any;
   blockNumber?: BlockIdentifier;
   protocol?: string; // Specific protocol to query
+  includePositions?: boolean; // Return the individual positions behind the totals
+  // Where position ids come from for protocols backed by an indexer (default: indexer with on-chain fallback)
+  positionDiscovery?: PositionDiscoveryMode;
+  includeOrders?: boolean; // Include Ekubo TWAMM and limit orders, found by scanning the user's position NFTs
+  includePendingRewards?: boolean; // Add unminted harvest rewards to STRKFarm vault positions
 }
 
+export type PositionDiscoveryMode = 'indexer' | 'onchain' | 'auto';
+
 export interface HoldingsResponse {
   success: boolean;
   data?: ProtocolHoldings;
@@ -51,9 +74,33 @@ export interface MultiProtocolHoldings {
   total: ProtocolHoldings;
   byProtocol: Record<string, ProtocolHoldings>;
   protocols: string[];
+  results?: Record<string, ProtocolQueryResult>; // Outcome of each protocol query
+}
+
+export type ProtocolQueryStatus = 'ok' | 'failed' | 'not-deployed';
+
+export interface ProtocolQueryResult {
+  protocol: string;
+  status: ProtocolQueryStatus;
+  attempts: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  delayMs: number; // Delay before the first retry
+  backoffMultiplier: number; // Applied to the delay after every retry
 }
 
-export type ProtocolType = 
+export interface MultiProtocolOptions {
+  // strict: reject if any protocol fails; bestEffort: leave failed protocols out of the totals
+  mode?: 'strict' | 'bestEffort';
+  retry?: Partial<RetryPolicy>;
+  onRetry?: (protocol: ProtocolType, attempt: number, error: string) => void; // Called before every retry
+}
+
+export type BuiltInProtocolType = 
   | 'lst' 
   | 'ekubo' 
   | 'nostraLending' 
@@ -63,10 +110,66 @@ export type ProtocolType =
   | 'strkfarmEkubo'
   | 'vesu';
 
+// Custom protocols can be registered under any id
+export type ProtocolType = BuiltInProtocolType | (string & Record<never, never>);
+
 export interface ProtocolInfo {
   type: ProtocolType;
   name: string;
   description: string;
   isActive: boolean;
   supportedNetworks: string[];
-} 
\ No newline at end of file
+  contracts?: string[]; // Deployment timeline ids, the protocol is deployed from the first block of any of them
+  deploymentBlock?: number; // First block at which the protocol holds xSTRK, for protocols without contracts
+} 
+export interface HoldingsHistoryOptions extends MultiProtocolOptions {
+  fromBlock?: number; // Defaults to the earliest deployment block of the queried protocols
+  toBlock?: number; // Defaults to the latest block
+  step?: number; // Sample every `step` blocks between fromBlock and toBlock
+  timestamps?: number[]; // Or sample the last block at or before each unix timestamp, one point per timestamp in order
+  protocols?: ProtocolType[];
+  includePositions?: boolean;
+}
+
+export interface HoldingsHistoryPoint {
+  blockNumber: number;
+  timestamp: number; // Of the block
+  requestedTimestamp?: number; // Set when sampled by timestamps
+  total: ProtocolHoldings;
+  byProtocol: Record<string, ProtocolHoldings>;
+  results?: Record<string, ProtocolQueryResult>;
+}
+
+export interface HoldingsHistory {
+  address: string;
+  protocols: string[];
+  points: HoldingsHistoryPoint[];
+}
+
+export interface BatchHoldingsOptions extends MultiProtocolOptions {
+  blockNumber?: number; // Defaults to the latest block, resolved once for the whole batch
+  protocols?: ProtocolType[];
+  concurrency?: number; // Addresses processed in parallel
+  includePositions?: boolean;
+}
+
+export interface BatchHoldingsResult {
+  address: string;
+  blockNumber: number;
+  success: boolean;
+  data?: MultiProtocolHoldings;
+  error?: string;
+}
+
+export interface ValuedProtocolHoldings extends ProtocolHoldings {
+  STRKValue: string; // STRK plus xSTRK converted to STRK
+}
+
+export interface ValuedMultiProtocolHoldings {
+  total: ValuedProtocolHoldings;
+  byProtocol: Record<string, ValuedProtocolHoldings>;
+  protocols: string[];
+  exchangeRate: string; // STRK per xSTRK, scaled by 1e18
+  blockNumber: BlockIdentifier;
+  results?: Record<string, ProtocolQueryResult>;
+}
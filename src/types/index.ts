@@ -2,4 +2,11 @@
 export * from './core';
 export * from './api';
 export * from './starknet';
-export * from './holdings'; 
\ No newline at end of file
+export * from './holdings';
+export * from './protocols';
+export * from './deployments';
+export * from './points';
+export * from './allocations';
+export * from './diff';
+export * from './watcher';
+export * from './lst';
@@ -0,0 +1,109 @@
+// LST types
+
+import { CallData, TransactionOptions } from "./starknet";
+
+export type LSTQuoteAction = 'deposit' | 'mint' | 'redeem' | 'withdraw';
+
+export interface LSTFeeConfig {
+  depositFeeBps: string;
+  withdrawFeeBps: string;
+  rewardsFeeBps: string; // Taken from staking rewards, not charged on deposits or withdrawals
+}
+
+export interface LSTQuote {
+  action: LSTQuoteAction;
+  amount: string; // Requested amount: STRK for deposit and withdraw, xSTRK for mint and redeem
+  tokenIn: string;
+  amountIn: string; // Paid by the user, fees included
+  tokenOut: string;
+  amountOut: string; // Received by the user, fees deducted
+  feeToken: string;
+  fee: string; // Difference with the fee-free conversion, in feeToken
+  feeBps: string; // Configured fee of the action
+  maxAmount: string; // Largest amount the action accepts for the address, in the unit of `amount`
+  exceedsMax: boolean;
+}
+
+export interface LSTTransactionOptions extends TransactionOptions {
+  receiver?: string; // Defaults to the connected account
+  owner?: string; // xSTRK owner for redeem and withdraw, defaults to the connected account
+}
+
+export type WithdrawalRequestStatus = 'pending' | 'claimable' | 'claimed';
+
+export interface WithdrawalRequest {
+  id: string;
+  owner: string; // Holder of the request NFT, who the STRK is paid to
+  amountSTRK: string; // Paid out on claim
+  amountXSTRK: string; // Burned when the request was made
+  createdAt: number; // Unix seconds
+  unlockTime: number; // Unix seconds from which the request can be claimed, if the queue holds enough STRK
+  status: WithdrawalRequestStatus;
+}
+
+export type UnstakeRouteType = 'withdrawalQueue' | 'ekubo' | 'nostra';
+
+export interface UnstakeRoute {
+  route: UnstakeRouteType;
+  amountIn: string; // xSTRK sold or redeemed
+  expectedSTRK: string;
+  minimumSTRK: string; // Least STRK the calls accept before reverting
+  priceImpactBps: string; // Loss against the pool price before the trade, fees excluded
+  waitTime: number; // Seconds until the STRK can be used
+  calls: CallData[]; // Ready to execute from the connected account, empty when the route failed
+  error?: string; // Set when the route could not be quoted
+}
+
+export interface UnstakeQuote {
+  amount: string; // xSTRK to unstake
+  routes: UnstakeRoute[]; // Quoted routes, most STRK first, failed ones last
+  bestInstant?: UnstakeRouteType; // Swap route paying the most STRK
+}
+
+export interface UnstakeOptions {
+  receiver?: string; // Default: connected account
+  slippageBps?: number; // Tolerance of the Ekubo route (default: 50)
+  queueWaitTime?: number; // Seconds the withdrawal queue is assumed to take (default: 7 days)
+}
+
+export type DelegatorEventType = 'update' | 'stake' | 'withdrawQueue';
+
+export interface DelegatorEvent {
+  type: DelegatorEventType; // DelegatorUpdate, DispatchToStake or DispatchToWithdrawQueue
+  blockNumber: number;
+  transactionHash: string;
+  delegator?: string; // Not set on withdraw queue dispatches
+  amount?: string; // STRK dispatched
+  isActive?: boolean; // Set on updates
+  index?: number; // Set on updates
+}
+
+export interface DelegatorHistoryOptions {
+  fromBlock?: number; // Default: LST deployment
+  toBlock?: number; // Default: latest
+  delegator?: string; // Only events of this delegator
+}
+
+export interface DelegatorInfo {
+  address: string;
+  isActive: boolean; // From the latest DelegatorUpdate
+  isDelegator: boolean; // is_delegator on the LST at the latest block
+  index?: number;
+  totalDispatched: string; // All STRK ever dispatched to the delegator's validator, unstaking not deducted
+  dispatchCount: number;
+  addedAt?: number; // Block of the first update
+  updatedAt?: number; // Block of the latest update
+}
+
+export interface DelegatorStake extends DelegatorInfo {
+  stakedAmount: string; // Current stake in the validator's pool, unstaking deducted
+  shareBps: string; // Of the STRK staked by active delegators
+}
+
+export interface StakeDistribution {
+  delegators: DelegatorStake[]; // Active delegators, most staked first
+  totalStaked: string; // Sum of stakedAmount over the active delegators
+  dispatchedToStake: string; // Sum of totalDispatched over the active delegators
+  dispatchedToWithdrawQueue: string;
+  lstBalance: string; // STRK held by the LST contract
+}
@@ -0,0 +1,46 @@
+// Points types
+
+import { PointsData } from "./api";
+import { MultiProtocolOptions, ProtocolType } from "./holdings";
+
+export interface PointsPeriod {
+  name: string;
+  fromTimestamp: number; // Unix seconds, inclusive
+  toTimestamp?: number; // Unix seconds, exclusive; open-ended when unset
+  pointsPerDay: number; // Points earned per xSTRK held for a day at a multiplier of 1
+  multipliers: Partial<Record<ProtocolType, number>>; // Protocols not listed earn no points
+}
+
+export interface PointsSchedule {
+  periods: PointsPeriod[];
+}
+
+export interface PointsOptions extends MultiProtocolOptions {
+  toTimestamp?: number; // Defaults to now
+  sampleInterval?: number; // Seconds between holdings samples, defaults to a day
+}
+
+export interface PointsBreakdown {
+  address: string;
+  fromTimestamp: number;
+  toTimestamp: number;
+  total: number;
+  byProtocol: Record<string, number>;
+  byPeriod: Record<string, number>;
+  samples: number; // Holdings snapshots the points were computed from
+}
+
+export interface PointsReconciliationOptions extends PointsOptions {
+  tolerance?: number; // Accepted relative difference, defaults to 1%
+}
+
+export interface PointsReconciliation {
+  address: string;
+  computed: PointsBreakdown | null; // Null when the holdings could not be sampled
+  reported: number | null; // Null when the API has no points for the address
+  reportedBreakdown?: PointsData;
+  difference: number | null; // Computed minus reported
+  relativeDifference: number | null; // Difference over reported
+  matches: boolean;
+  error?: string;
+}
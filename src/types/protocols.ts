@@ -0,0 +1,195 @@
+// Protocol specific types
+
+export interface VesuPositionRisk {
+  poolId: string;
+  singleton: string;
+  collateralAsset: string;
+  debtAsset: string;
+  collateral: string; // In collateral asset units
+  debt: string; // In debt asset units
+  collateralValue: string; // Oracle value, scaled by 1e18
+  debtValue: string; // Oracle value, scaled by 1e18
+  ltv: string; // debtValue / collateralValue, scaled by 1e18
+  maxLtv: string; // Scaled by 1e18
+  healthFactor: string | null; // collateralValue * maxLtv / debtValue, scaled by 1e18; null without debt
+  isCollateralized: boolean;
+}
+
+export interface OpusTroveAsset {
+  yang: string; // Collateral asset address
+  assetAmount: string; // In asset units
+  yangAmount: string; // Wad
+  value: string; // CASH value, wad
+}
+
+export interface OpusTrove {
+  troveId: string;
+  assets: OpusTroveAsset[];
+  debt: string; // Forged CASH, wad
+  value: string; // Total collateral value, wad
+  ltv: string; // Ray (1e27)
+  threshold: string; // Liquidation threshold, ray (1e27)
+  isHealthy: boolean;
+}
+
+export interface EkuboPoolKey {
+  token0: string;
+  token1: string;
+  fee: string;
+  tickSpacing: string;
+  extension: string;
+}
+
+export interface EkuboPosition {
+  id: string; // Position NFT id
+  poolKey: EkuboPoolKey;
+  bounds: {
+    lower: number;
+    upper: number;
+  };
+  referrer?: string; // Set when minted with a referrer and discovered on-chain
+}
+
+export interface NostraAmplification {
+  current: string; // Interpolated at the queried block
+  start: string;
+  end: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface NostraPoolState {
+  address: string;
+  token0: string;
+  token1: string;
+  reserve0: string;
+  reserve1: string;
+  totalSupply: string;
+  swapFee: string; // As reported by the pair
+  amplification: NostraAmplification;
+}
+
+export interface NostraSwapQuote {
+  pool: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  reserveIn: string;
+  reserveOut: string;
+  effectivePrice: string; // amountOut per unit of amountIn, scaled by 1e18
+}
+
+export interface EkuboSwapQuote {
+  pool: string; // Core contract holding the pool
+  poolKey: EkuboPoolKey;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string; // Capped at the edge of the active range when partial
+  amountOut: string;
+  sqrtRatio: string; // Pool price before the swap, as reported by the core
+  liquidity: string; // Active liquidity the quote is computed from
+  marginalPrice: string; // amountOut per unit of amountIn for an infinitesimal trade, after fees, scaled by 1e18
+  effectivePrice: string; // amountOut per unit of amountIn, scaled by 1e18
+  partial: boolean; // Set when the requested amount would cross an initialized tick and was capped
+}
+
+export interface EkuboTwammOrderKey {
+  sellToken: string;
+  buyToken: string;
+  fee: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface EkuboLimitOrderKey {
+  token0: string;
+  token1: string;
+  tick: number;
+}
+
+export type EkuboOrderRef =
+  | { id: string; type: 'twamm'; key: EkuboTwammOrderKey }
+  | { id: string; type: 'limit'; key: EkuboLimitOrderKey };
+
+export interface EkuboOrderAmounts {
+  id: string; // Position NFT id holding the order
+  sellToken: string;
+  buyToken: string;
+  remainingSellAmount: string; // Not sold yet, returned if the order is closed
+  purchasedAmount: string; // Bought and not withdrawn yet
+}
+
+export interface EkuboTwammOrder extends EkuboOrderAmounts {
+  type: 'twamm';
+  key: EkuboTwammOrderKey;
+  saleRate: string;
+  startTime: number;
+  endTime: number; // Expiry, unix seconds
+}
+
+export interface EkuboLimitOrder extends EkuboOrderAmounts {
+  type: 'limit';
+  key: EkuboLimitOrderKey;
+  executed: boolean; // Fully filled
+  endTime: null; // Limit orders do not expire
+}
+
+export type EkuboOrder = EkuboTwammOrder | EkuboLimitOrder;
+
+export interface STRKFarmSenseiPosition {
+  contract: string;
+  estimatedSize: string; // Position size estimated by the strategy
+  token1: string;
+  deposit1: string;
+  borrow1: string;
+  net1: string; // deposit1 - borrow1, may be negative
+  token2: string;
+  deposit2: string;
+  borrow2: string;
+  net2: string; // deposit2 - borrow2, may be negative
+}
+
+export interface STRKFarmFeeSettings {
+  feeBps: number;
+  feeCollector: string;
+}
+
+export interface STRKFarmPendingRewards {
+  contract: string;
+  shares: string; // Vault shares held
+  pendingShares: string; // Harvest rewards accrued as shares and not minted yet
+  amount0: string; // pendingShares in pool token0
+  amount1: string; // pendingShares in pool token1
+  pendingRoundPoints: string;
+  lastUpdateBlock: number;
+  rewardRoundIndex: number; // Next harvest round to be settled for the user
+  totalRewardRounds: number;
+}
+
+export interface STRKFarmStrategy {
+  id: string;
+  type: 'sensei' | 'ekuboVault';
+  contract: string;
+  tokens: string[];
+  feeSettings?: STRKFarmFeeSettings; // Left out when the strategy does not expose its fees
+}
+
+export type NostraTokenKind = 'supply' | 'collateral' | 'debt';
+
+export interface NostraTokenBalance {
+  token: string; // Nostra token name, e.g. iXSTRKC
+  contract: string;
+  kind: NostraTokenKind;
+  interestBearing: boolean;
+  balance: string; // Raw token balance
+  underlying: string; // xSTRK, converted with the token's index for interest-bearing tokens
+}
+
+export interface NostraLendingSummary {
+  supply: string; // Gross xSTRK deposited, collateral included
+  collateral: string; // Part of supply used as collateral
+  debt: string; // xSTRK borrowed
+  net: string; // supply - debt, may be negative
+  tokens: NostraTokenBalance[];
+}
@@ -28,7 +28,8 @@ export interface EventFilter {
   fromBlock?: number;
   toBlock?: number;
   address?: string;
-  keys?: string[];
+  // Accepted values per key position, an empty list accepts any; a flat list gives one value per position
+  keys?: string[] | string[][];
 }
 
 export interface Event {
@@ -0,0 +1,29 @@
+// Holdings watcher types
+
+import { HoldingsDiff } from "./diff";
+import { MultiProtocolHoldings, MultiProtocolOptions, ProtocolType } from "./holdings";
+
+export interface HoldingsWatcherOptions extends MultiProtocolOptions {
+  addresses: string[];
+  protocols?: ProtocolType[];
+  pollInterval?: number; // Milliseconds between checks for new blocks, defaults to 10 seconds
+  includePositions?: boolean; // Diff positions as well as totals
+  contracts?: string[]; // Extra contracts whose events trigger a recompute, e.g. of custom protocols
+}
+
+export interface HoldingsChange {
+  address: string;
+  blockNumber: number; // Block the new holdings were computed at
+  previous: MultiProtocolHoldings;
+  current: MultiProtocolHoldings;
+  diff: HoldingsDiff;
+}
+
+export interface HoldingsWatcherEvents {
+  change: HoldingsChange;
+  error: Error; // A poll failed; the same blocks are retried on the next one
+}
+
+export type HoldingsWatcherListener<K extends keyof HoldingsWatcherEvents> = (
+  payload: HoldingsWatcherEvents[K]
+) => void;
@@ -0,0 +1,98 @@
+import type { MultiProtocolHoldings, ProtocolHoldings, ProtocolPosition } from '../../types';
+import { diffAmount, diffHoldings, diffProtocolHoldings, diffTokenAmounts } from '../diff';
+
+const XSTRK = '0x28d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0a';
+const STRK = '0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d';
+
+function position(id: string, xSTRKAmount: string, STRKAmount: string = '0'): ProtocolPosition {
+  return { id, type: 'lp', xSTRKAmount, STRKAmount, amount: xSTRKAmount, value: STRKAmount };
+}
+
+function snapshot(byProtocol: Record<string, ProtocolHoldings>): MultiProtocolHoldings {
+  const sum = (key: 'xSTRKAmount' | 'STRKAmount') =>
+    Object.values(byProtocol)
+      .reduce((total, holdings) => total + BigInt(holdings[key]), 0n)
+      .toString();
+  return {
+    total: { xSTRKAmount: sum('xSTRKAmount'), STRKAmount: sum('STRKAmount') },
+    byProtocol,
+    protocols: Object.keys(byProtocol),
+  };
+}
+
+describe('diffAmount', () => {
+  it('takes the delta as after minus before', () => {
+    expect(diffAmount('100', '40')).toEqual({ before: '100', after: '40', delta: '-60' });
+  });
+});
+
+describe('diffTokenAmounts', () => {
+  it('keeps held and owed amounts of a token apart', () => {
+    const changes = diffTokenAmounts(
+      [
+        { token: XSTRK, decimals: 18, amount: '100' },
+        { token: XSTRK, decimals: 18, amount: '30', isDebt: true },
+      ],
+      [
+        { token: XSTRK, decimals: 18, amount: '100' },
+        { token: XSTRK, decimals: 18, amount: '50', isDebt: true },
+      ]
+    );
+
+    expect(changes).toEqual([
+      { token: XSTRK, decimals: 18, isDebt: true, before: '30', after: '50', delta: '20' },
+    ]);
+  });
+
+  it('matches tokens regardless of address formatting', () => {
+    const changes = diffTokenAmounts(
+      [{ token: STRK, decimals: 18, amount: '10' }],
+      [{ token: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d', decimals: 18, amount: '10' }]
+    );
+
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('diffProtocolHoldings', () => {
+  it('reports opened, closed and changed positions and leaves out unchanged ones', () => {
+    const change = diffProtocolHoldings(
+      'ekubo',
+      { xSTRKAmount: '30', STRKAmount: '0', positions: [position('1', '10'), position('2', '20')] },
+      { xSTRKAmount: '45', STRKAmount: '0', positions: [position('2', '25'), position('3', '20')] }
+    );
+
+    expect(change.xSTRKAmount.delta).toBe('15');
+    expect(change.positions.map(({ id, kind, xSTRKAmount }) => [id, kind, xSTRKAmount.delta])).toEqual([
+      ['1', 'closed', '-10'],
+      ['2', 'changed', '5'],
+      ['3', 'opened', '20'],
+    ]);
+  });
+
+  it('counts a protocol missing from a snapshot as holding nothing', () => {
+    const change = diffProtocolHoldings('opus', undefined, { xSTRKAmount: '7', STRKAmount: '0' });
+
+    expect(change.xSTRKAmount).toEqual({ before: '0', after: '7', delta: '7' });
+  });
+});
+
+describe('diffHoldings', () => {
+  it('lists only the protocols whose holdings changed', () => {
+    const diff = diffHoldings(
+      snapshot({
+        lst: { xSTRKAmount: '100', STRKAmount: '0' },
+        vesu: { xSTRKAmount: '50', STRKAmount: '0' },
+      }),
+      snapshot({
+        lst: { xSTRKAmount: '100', STRKAmount: '0' },
+        vesu: { xSTRKAmount: '20', STRKAmount: '0' },
+        opus: { xSTRKAmount: '30', STRKAmount: '0' },
+      })
+    );
+
+    expect(Object.keys(diff.byProtocol).sort()).toEqual(['opus', 'vesu']);
+    expect(diff.protocols.sort()).toEqual(['lst', 'opus', 'vesu']);
+    expect(diff.total.xSTRKAmount.delta).toBe('0');
+  });
+});
@@ -0,0 +1,30 @@
+import { decodeSigned, decodeU256, isSameAddress } from '../events';
+
+describe('decodeSigned', () => {
+  it('keeps the magnitude of an i129 without the sign flag', () => {
+    expect(decodeSigned(887272n, '0x0')).toBe(887272n);
+    expect(decodeSigned(887272n, undefined)).toBe(887272n);
+  });
+
+  it('negates the magnitude of an i129 with the sign flag', () => {
+    expect(decodeSigned(887272n, '0x1')).toBe(-887272n);
+  });
+
+  it('decodes a zero magnitude with the sign flag as zero', () => {
+    expect(decodeSigned(0n, '0x1')).toBe(0n);
+  });
+});
+
+describe('decodeU256', () => {
+  it('combines the low and high felts', () => {
+    expect(decodeU256('0x5', '0x2')).toBe((2n << 128n) + 5n);
+    expect(decodeU256(undefined, undefined)).toBe(0n);
+  });
+});
+
+describe('isSameAddress', () => {
+  it('ignores leading zeros and case', () => {
+    expect(isSameAddress('0x04718F5A', '0x4718f5a')).toBe(true);
+    expect(isSameAddress('0x1', '0x2')).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { hash, merkle } from 'starknet';
+import type { AllocationData } from '../../types';
+import { computeAllocationLeaf, verifyAllocationProof, verifyMerkleProof } from '../merkle';
+
+const ALLOCATIONS = [
+  { address: '0x123', amount: '1000' },
+  { address: '0x456', amount: '2500' },
+  { address: '0x789', amount: '40' },
+  { address: '0xabc', amount: '7' },
+  { address: '0xdef', amount: '12' },
+];
+
+function buildAllocation(index: number, method: 'pedersen' | 'poseidon' = 'pedersen'): AllocationData {
+  const leaves = ALLOCATIONS.map(({ address, amount }) => computeAllocationLeaf(address, amount, method));
+  const tree = new merkle.MerkleTree(
+    leaves,
+    method === 'poseidon' ? hash.computePoseidonHash : hash.computePedersenHash
+  );
+  const allocation = ALLOCATIONS[index];
+  const leaf = leaves[index];
+  if (!allocation || !leaf) {
+    throw new Error(`No allocation at ${index}`);
+  }
+  return { ...allocation, proof: tree.getProof(leaf), root: tree.root };
+}
+
+describe('computeAllocationLeaf', () => {
+  it('hashes the claimee with the amount', () => {
+    expect(computeAllocationLeaf('0x123', '1000')).toBe(hash.computePedersenHash('0x123', '1000'));
+    expect(computeAllocationLeaf('0x123', '1000', 'poseidon')).toBe(hash.computePoseidonHash('0x123', '1000'));
+  });
+});
+
+describe('verifyAllocationProof', () => {
+  it('accepts the proof of every allocation of the tree', () => {
+    ALLOCATIONS.forEach((_, index) => {
+      expect(verifyAllocationProof(buildAllocation(index))).toBe(true);
+    });
+  });
+
+  it('accepts proofs of a Poseidon tree with the Poseidon method only', () => {
+    const allocation = buildAllocation(1, 'poseidon');
+
+    expect(verifyAllocationProof(allocation, 'poseidon')).toBe(true);
+    expect(verifyAllocationProof(allocation)).toBe(false);
+  });
+
+  it('rejects an allocation whose amount was changed', () => {
+    expect(verifyAllocationProof({ ...buildAllocation(0), amount: '1001' })).toBe(false);
+  });
+});
+
+describe('verifyMerkleProof', () => {
+  it('rejects a proof against another root', () => {
+    const allocation = buildAllocation(2);
+    const leaf = computeAllocationLeaf(allocation.address, allocation.amount);
+
+    expect(verifyMerkleProof(allocation.root, leaf, allocation.proof)).toBe(true);
+    expect(verifyMerkleProof('0x1', leaf, allocation.proof)).toBe(false);
+  });
+
+  it('returns false instead of throwing on malformed nodes', () => {
+    expect(verifyMerkleProof('0x1', '0x2', ['not a felt'])).toBe(false);
+  });
+});
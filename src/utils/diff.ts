@@ -0,0 +1,155 @@
+// Holdings diff utilities
+import type {
+  AmountChange,
+  HoldingsDiff,
+  MultiProtocolHoldings,
+  PositionChange,
+  ProtocolChange,
+  ProtocolHoldings,
+  ProtocolPosition,
+  TokenAmount,
+  TokenAmountChange,
+} from '../types';
+
+/**
+ * Diffs two holdings snapshots of the same address, per protocol and per position
+ */
+export function diffHoldings(
+  before: MultiProtocolHoldings,
+  after: MultiProtocolHoldings
+): HoldingsDiff {
+  const protocols = Array.from(
+    new Set([...Object.keys(before.byProtocol), ...Object.keys(after.byProtocol)])
+  );
+
+  const byProtocol: Record<string, ProtocolChange> = {};
+  for (const protocol of protocols) {
+    const change = diffProtocolHoldings(
+      protocol,
+      before.byProtocol[protocol],
+      after.byProtocol[protocol]
+    );
+    if (hasProtocolChanged(change)) {
+      byProtocol[protocol] = change;
+    }
+  }
+
+  return {
+    total: {
+      xSTRKAmount: diffAmount(before.total.xSTRKAmount, after.total.xSTRKAmount),
+      STRKAmount: diffAmount(before.total.STRKAmount, after.total.STRKAmount),
+      tokens: diffTokenAmounts(before.total.tokens ?? [], after.total.tokens ?? []),
+    },
+    byProtocol,
+    protocols,
+  };
+}
+
+/**
+ * Diffs the holdings of one protocol; a protocol missing from a snapshot counts as holding nothing
+ */
+export function diffProtocolHoldings(
+  protocol: string,
+  before: ProtocolHoldings | undefined,
+  after: ProtocolHoldings | undefined
+): ProtocolChange {
+  const beforePositions = new Map((before?.positions ?? []).map(position => [position.id, position]));
+  const afterPositions = new Map((after?.positions ?? []).map(position => [position.id, position]));
+  const ids = Array.from(new Set([...beforePositions.keys(), ...afterPositions.keys()]));
+
+  const positions: PositionChange[] = [];
+  for (const id of ids) {
+    const change = diffPosition(beforePositions.get(id), afterPositions.get(id));
+    if (change) {
+      positions.push(change);
+    }
+  }
+
+  return {
+    protocol,
+    xSTRKAmount: diffAmount(before?.xSTRKAmount ?? '0', after?.xSTRKAmount ?? '0'),
+    STRKAmount: diffAmount(before?.STRKAmount ?? '0', after?.STRKAmount ?? '0'),
+    tokens: diffTokenAmounts(before?.tokens ?? [], after?.tokens ?? []),
+    positions,
+    events: [],
+  };
+}
+
+/**
+ * Diffs two amounts in the smallest unit
+ */
+export function diffAmount(before: string, after: string): AmountChange {
+  return {
+    before,
+    after,
+    delta: (BigInt(after) - BigInt(before)).toString(),
+  };
+}
+
+/**
+ * Diffs two token lists, keeping held and owed amounts apart and leaving out unchanged tokens
+ */
+export function diffTokenAmounts(before: TokenAmount[], after: TokenAmount[]): TokenAmountChange[] {
+  const key = (tokenAmount: TokenAmount) =>
+    `${BigInt(tokenAmount.token)}:${tokenAmount.isDebt ? 'debt' : 'held'}`;
+  const beforeTokens = new Map(before.map(tokenAmount => [key(tokenAmount), tokenAmount]));
+  const afterTokens = new Map(after.map(tokenAmount => [key(tokenAmount), tokenAmount]));
+
+  const changes: TokenAmountChange[] = [];
+  for (const tokenKey of new Set([...beforeTokens.keys(), ...afterTokens.keys()])) {
+    const previous = beforeTokens.get(tokenKey);
+    const current = afterTokens.get(tokenKey);
+    const info = current ?? previous;
+    if (!info) continue;
+    const change = diffAmount(previous?.amount ?? '0', current?.amount ?? '0');
+    if (BigInt(change.delta) === 0n) continue;
+
+    changes.push({
+      token: info.token,
+      ...(info.symbol ? { symbol: info.symbol } : {}),
+      decimals: info.decimals,
+      ...(info.isDebt ? { isDebt: true } : {}),
+      ...change,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Diffs a position across two snapshots, returning nothing if it did not change
+ */
+function diffPosition(
+  before: ProtocolPosition | undefined,
+  after: ProtocolPosition | undefined
+): PositionChange | null {
+  const position = after ?? before;
+  if (!position) {
+    return null;
+  }
+
+  const change: PositionChange = {
+    id: position.id,
+    type: position.type,
+    kind: !before ? 'opened' : !after ? 'closed' : 'changed',
+    xSTRKAmount: diffAmount(before?.xSTRKAmount ?? '0', after?.xSTRKAmount ?? '0'),
+    STRKAmount: diffAmount(before?.STRKAmount ?? '0', after?.STRKAmount ?? '0'),
+    tokens: diffTokenAmounts(before?.tokens ?? [], after?.tokens ?? []),
+    ...(position.metadata ? { metadata: position.metadata } : {}),
+  };
+
+  const unchanged =
+    change.kind === 'changed' &&
+    BigInt(change.xSTRKAmount.delta) === 0n &&
+    BigInt(change.STRKAmount.delta) === 0n &&
+    change.tokens.length === 0;
+  return unchanged ? null : change;
+}
+
+function hasProtocolChanged(change: ProtocolChange): boolean {
+  return (
+    BigInt(change.xSTRKAmount.delta) !== 0n ||
+    BigInt(change.STRKAmount.delta) !== 0n ||
+    change.tokens.length > 0 ||
+    change.positions.length > 0
+  );
+}
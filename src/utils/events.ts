@@ -0,0 +1,89 @@
+// Event utilities
+import { BlockIdentifier, hash, RpcProvider } from 'starknet';
+import type { Event } from '../types';
+
+export interface EventQuery {
+  address?: string; // Events of every contract when unset
+  keys?: string[][];
+  fromBlock?: number;
+  toBlock?: BlockIdentifier;
+  chunkSize?: number;
+  filter?: (event: Event) => boolean; // Applied to each chunk, so that only matching events are held
+}
+
+/**
+ * Gets the key selector of an event by name
+ */
+export function getEventSelector(name: string): string {
+  return hash.getSelectorFromName(name);
+}
+
+/**
+ * Converts a block identifier into an event filter block reference
+ */
+export function toEventBlockId(blockNumber?: BlockIdentifier): { block_number: number } | 'pending' | 'latest' {
+  if (typeof blockNumber === 'number') {
+    return { block_number: blockNumber };
+  }
+  if (blockNumber === 'pending') {
+    return 'pending';
+  }
+  return 'latest';
+}
+
+/**
+ * Fetches every event matching a query, following continuation tokens
+ */
+export async function getAllEvents(provider: RpcProvider, query: EventQuery): Promise<Event[]> {
+  const events: Event[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const chunk = await provider.getEvents({
+      ...(query.address ? { address: query.address } : {}),
+      keys: query.keys ?? [],
+      from_block: { block_number: query.fromBlock ?? 0 },
+      to_block: toEventBlockId(query.toBlock),
+      chunk_size: query.chunkSize ?? 1000,
+      ...(continuationToken ? { continuation_token: continuationToken } : {}),
+    });
+
+    for (const emitted of chunk.events) {
+      const event: Event = {
+        transactionHash: emitted.transaction_hash,
+        blockNumber: emitted.block_number,
+        blockHash: emitted.block_hash,
+        address: emitted.from_address,
+        keys: emitted.keys,
+        data: emitted.data,
+      };
+      if (!query.filter || query.filter(event)) {
+        events.push(event);
+      }
+    }
+    continuationToken = chunk.continuation_token;
+  } while (continuationToken);
+
+  return events;
+}
+
+/**
+ * Compares two addresses or felts regardless of formatting
+ */
+export function isSameAddress(a: string, b: string): boolean {
+  return BigInt(a) === BigInt(b);
+}
+
+/**
+ * Decodes a u256 event member from its low and high felts
+ */
+export function decodeU256(low: string | undefined, high: string | undefined): bigint {
+  return BigInt(low ?? 0) + (BigInt(high ?? 0) << 128n);
+}
+
+/**
+ * Decodes a signed event member (i129, i257) from its magnitude and sign flag
+ */
+export function decodeSigned(magnitude: bigint, sign: string | undefined): bigint {
+  return BigInt(sign ?? 0) === 0n ? magnitude : -magnitude;
+}
@@ -2,4 +2,8 @@
 export * from './validation';
 export * from './formatting';
 export * from './math';
-export * from './crypto'; 
\ No newline at end of file
+export * from './crypto';
+export * from './events';
+export * from './tokens';
+export * from './merkle';
+export * from './diff';
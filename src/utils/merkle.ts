@@ -0,0 +1,55 @@
+// Merkle utilities
+import { BigNumberish, hash, merkle, num } from 'starknet';
+import type { AllocationData, MerkleHashMethod } from '../types';
+
+/**
+ * Gets the pair hash function of a Merkle tree
+ */
+export function getMerkleHashFunction(
+  method: MerkleHashMethod = 'pedersen'
+): (a: BigNumberish, b: BigNumberish) => string {
+  return method === 'poseidon' ? hash.computePoseidonHash : hash.computePedersenHash;
+}
+
+/**
+ * Computes the leaf of an allocation: the hash of the claimee and the amount
+ */
+export function computeAllocationLeaf(
+  address: string,
+  amount: string,
+  method: MerkleHashMethod = 'pedersen'
+): string {
+  return getMerkleHashFunction(method)(address, amount);
+}
+
+/**
+ * Verifies a Merkle proof, hashing each pair in sorted order
+ */
+export function verifyMerkleProof(
+  root: string,
+  leaf: string,
+  proof: string[],
+  method: MerkleHashMethod = 'pedersen'
+): boolean {
+  try {
+    return merkle.proofMerklePath(
+      num.toHex(root),
+      num.toHex(leaf),
+      proof.map(node => num.toHex(node)),
+      getMerkleHashFunction(method)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies the proof of an allocation against its root
+ */
+export function verifyAllocationProof(
+  allocation: AllocationData,
+  method: MerkleHashMethod = 'pedersen'
+): boolean {
+  const leaf = computeAllocationLeaf(allocation.address, allocation.amount, method);
+  return verifyMerkleProof(allocation.root, leaf, allocation.proof, method);
+}
@@ -0,0 +1,90 @@
+// Token amount utilities
+import type { Network, ProtocolHoldings, TokenAmount } from '../types';
+import { CONTRACTS, TOKENS, TokenInfo } from '../constants';
+
+/**
+ * Finds a known token by address
+ */
+export function findToken(network: Network, address: string): TokenInfo | undefined {
+  return Object.values(TOKENS[network]).find(
+    token => BigInt(token.address) === BigInt(address)
+  );
+}
+
+/**
+ * Sums token amounts per token, keeping held and owed amounts apart
+ */
+export function mergeTokenAmounts(...lists: TokenAmount[][]): TokenAmount[] {
+  const merged = new Map<string, TokenAmount>();
+
+  for (const tokenAmount of lists.flat()) {
+    const key = `${BigInt(tokenAmount.token)}:${tokenAmount.isDebt ? 'debt' : 'held'}`;
+    const existing = merged.get(key);
+    merged.set(
+      key,
+      existing
+        ? { ...existing, amount: (BigInt(existing.amount) + BigInt(tokenAmount.amount)).toString() }
+        : { ...tokenAmount }
+    );
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Projects token amounts onto the xSTRK/STRK view; other tokens are left out, and so is
+ * debt unless it should be netted against what is held
+ */
+export function projectTokenAmounts(
+  tokens: TokenAmount[],
+  network: Network,
+  subtractDebt: boolean = false
+): Pick<ProtocolHoldings, 'xSTRKAmount' | 'STRKAmount'> {
+  let xSTRKAmount = BigInt(0);
+  let STRKAmount = BigInt(0);
+
+  for (const { token, amount, isDebt } of tokens) {
+    if (isDebt && !subtractDebt) continue;
+    const signed = isDebt ? -BigInt(amount) : BigInt(amount);
+    if (BigInt(token) === BigInt(CONTRACTS[network].lst)) {
+      xSTRKAmount += signed;
+    } else if (BigInt(token) === BigInt(CONTRACTS[network].strk)) {
+      STRKAmount += signed;
+    }
+  }
+
+  return {
+    xSTRKAmount: xSTRKAmount.toString(),
+    STRKAmount: STRKAmount.toString(),
+  };
+}
+
+/**
+ * Gets the token amounts of holdings, deriving them from the xSTRK/STRK view if none were reported
+ */
+export function getHoldingsTokens(holdings: ProtocolHoldings, network: Network): TokenAmount[] {
+  if (holdings.tokens) {
+    return holdings.tokens;
+  }
+
+  const tokens: TokenAmount[] = [];
+  const xSTRK = findToken(network, CONTRACTS[network].lst);
+  const strk = findToken(network, CONTRACTS[network].strk);
+  if (BigInt(holdings.xSTRKAmount) !== BigInt(0)) {
+    tokens.push({
+      token: CONTRACTS[network].lst,
+      ...(xSTRK ? { symbol: xSTRK.symbol } : {}),
+      decimals: xSTRK?.decimals ?? 18,
+      amount: holdings.xSTRKAmount,
+    });
+  }
+  if (BigInt(holdings.STRKAmount) !== BigInt(0)) {
+    tokens.push({
+      token: CONTRACTS[network].strk,
+      ...(strk ? { symbol: strk.symbol } : {}),
+      decimals: strk?.decimals ?? 18,
+      amount: holdings.STRKAmount,
+    });
+  }
+  return tokens;
+}